@@ -19,6 +19,9 @@ import { DiscordClientFactory } from "./clientfactory";
 import { DiscordStore } from "./store";
 import { DbEmoji } from "./db/dbdataemoji";
 import { DbEvent } from "./db/dbdataevent";
+import { DbMatrixSticker } from "./db/dbdatamatrixsticker";
+import { DbReaction } from "./db/dbdatareaction";
+import { DbSticker } from "./db/dbdatasticker";
 import { MatrixUser, RemoteUser, Bridge, Entry, Intent } from "matrix-appservice-bridge";
 import { Util } from "./util";
 import {
@@ -31,18 +34,31 @@ import { PresenceHandler } from "./presencehandler";
 import { Provisioner } from "./provisioner";
 import { UserSyncroniser } from "./usersyncroniser";
 import { ChannelSyncroniser } from "./channelsyncroniser";
+import { PinSyncroniser } from "./pinsyncroniser";
+import { DMHandler } from "./dmhandler";
+import { SpaceSyncroniser } from "./spacesyncroniser";
 import { MatrixRoomHandler } from "./matrixroomhandler";
 import { Log } from "./log";
 import * as Discord from "discord.js";
 import * as mime from "mime";
-import { IMatrixEvent, IMatrixMediaInfo } from "./matrixtypes";
+import { IMatrixEvent, IMatrixEventContent, IMatrixMediaInfo } from "./matrixtypes";
 import { DiscordCommandHandler } from "./discordcommandhandler";
 import { MetricPeg } from "./metrics";
+import { TimedCache } from "./structures/timedcache";
 
 const log = new Log("DiscordBot");
 
 const MIN_PRESENCE_UPDATE_DELAY = 250;
 const CACHE_LIFETIME = 90000;
+const REPLY_QUOTE_LENGTH = 100;
+const DISCORD_MESSAGE_LENGTH = 2000;
+const EMBED_DESCRIPTION_LENGTH = 2048;
+// Discord renders every sticker at 320x320.
+const STICKER_SIZE = 320;
+const STICKER_FORMAT_GIF = 4;
+const STICKER_FORMAT_LOTTIE = 3;
+// Discord signs attachment URLs for a day, so uploaded stickers are only linked to for half of that.
+const STICKER_URL_LIFETIME = 43200000; // 12 * 60 * 60 * 1000
 
 // TODO: This is bad. We should be serving the icon from the own homeserver.
 const MATRIX_ICON_URL = "https://matrix.org/_matrix/media/r0/download/matrix.org/mlxoESwIsTbJrfXyAAogrNxA";
@@ -57,6 +73,20 @@ interface IThirdPartyLookupField {
     guild_id: string;
 }
 
+/* discord.js does not expose message references yet, so they are read from the raw gateway events. */
+interface IDiscordMessageReference {
+    channel_id: string;
+    guild_id?: string;
+    message_id: string;
+}
+
+/* discord.js does not expose stickers yet, so they are read from the raw gateway events as well. */
+interface IDiscordStickerItem {
+    format_type: number;
+    id: string;
+    name: string;
+}
+
 interface IThirdPartyLookup {
     alias: string;
     fields: IThirdPartyLookupField;
@@ -68,17 +98,24 @@ export class DiscordBot {
     private bot: Discord.Client;
     private presenceInterval: number;
     private sentMessages: string[];
+    private sentEdits: string[];
     private lastEventIds: { [channelId: string]: string };
     private discordMsgProcessor: DiscordMessageProcessor;
     private mxEventProcessor: MatrixEventProcessor;
     private presenceHandler: PresenceHandler;
     private userSync!: UserSyncroniser;
     private channelSync: ChannelSyncroniser;
+    private pinSync: PinSyncroniser;
+    private dmHandler: DMHandler;
+    private spaceSync: SpaceSyncroniser;
     private roomHandler: MatrixRoomHandler;
     private provisioner: Provisioner;
     private discordCommandHandler: DiscordCommandHandler;
     /* Caches */
     private roomIdsForGuildCache: Map<string, {roomIds: string[], ts: number}> = new Map();
+    private messageReferences: Map<string, IDiscordMessageReference> = new Map(); // [messageId]: reference
+    private messageStickers: Map<string, IDiscordStickerItem[]> = new Map(); // [messageId]: stickers
+    private embedImageCache: TimedCache<string, string> = new TimedCache(CACHE_LIFETIME); // [url]: mxcUrl
 
     /* Handles messages queued up to be sent to matrix from discord. */
     private discordMessageQueue: { [channelId: string]: Promise<void> };
@@ -92,20 +129,29 @@ export class DiscordBot {
     ) {
 
         // create handlers
-        this.clientFactory = new DiscordClientFactory(store, config.auth);
+        this.clientFactory = new DiscordClientFactory(
+            store,
+            config.auth,
+            async (userId, discordId) => this.NotifyTokenInvalidated(userId, discordId),
+            (userId, discordId, client) => this.dmHandler.OnPuppetLoggedIn(userId, discordId, client),
+        );
         this.discordMsgProcessor = new DiscordMessageProcessor(
             new DiscordMessageProcessorOpts(config.bridge.domain, this),
         );
         this.presenceHandler = new PresenceHandler(this);
         this.roomHandler = new MatrixRoomHandler(this, config, this.provisioner, bridge, store.roomStore);
         this.channelSync = new ChannelSyncroniser(bridge, config, this, store.roomStore);
-        this.provisioner = new Provisioner(store.roomStore, this.channelSync);
+        this.pinSync = new PinSyncroniser(bridge, this, store);
+        this.dmHandler = new DMHandler(config, bridge, this, store);
+        this.spaceSync = new SpaceSyncroniser(bridge, config, this, store);
+        this.provisioner = new Provisioner(store.roomStore, this.channelSync, this.pinSync, store, bridge);
         this.mxEventProcessor = new MatrixEventProcessor(
             new MatrixEventProcessorOpts(config, bridge, this),
         );
         this.discordCommandHandler = new DiscordCommandHandler(bridge, this);
         // init vars
         this.sentMessages = [];
+        this.sentEdits = [];
         this.discordMessageQueue = {};
         this.channelLocks = new Map();
         this.channelLockPromises = new Map();
@@ -124,6 +170,18 @@ export class DiscordBot {
         return this.channelSync;
     }
 
+    get PinSyncroniser(): PinSyncroniser {
+        return this.pinSync;
+    }
+
+    get DMHandler(): DMHandler {
+        return this.dmHandler;
+    }
+
+    get SpaceSyncroniser(): SpaceSyncroniser {
+        return this.spaceSync;
+    }
+
     get BotUserId(): string {
         return this.botUserId;
     }
@@ -214,12 +272,22 @@ export class DiscordBot {
                 } catch (err) { log.warning("Exception thrown while handling \"presenceUpdate\" event", err); }
             });
         }
-        client.on("channelUpdate", async (_, newChannel) => {
+        client.on("channelCreate", async (channel) => {
+            try {
+                await this.spaceSync.OnChannelCreate(channel);
+            } catch (err) { log.error("Exception thrown while handling \"channelCreate\" event", err); }
+        });
+        client.on("channelUpdate", async (oldChannel, newChannel) => {
             try {
                 await this.channelSync.OnUpdate(newChannel);
+                await this.spaceSync.OnChannelUpdate(oldChannel, newChannel);
             } catch (err) { log.error("Exception thrown while handling \"channelUpdate\" event", err); }
         });
         client.on("channelDelete", async (channel) => {
+            try {
+                // Before the rooms are cleaned up, while they can still be found.
+                await this.spaceSync.OnChannelDelete(channel);
+            } catch (err) { log.error("Exception thrown while handling \"channelDelete\" event", err); }
             try {
                 await this.channelSync.OnDelete(channel);
             } catch (err) { log.error("Exception thrown while handling \"channelDelete\" event", err); }
@@ -257,9 +325,9 @@ export class DiscordBot {
         client.on("messageDeleteBulk", async (msgs: Discord.Collection<Discord.Snowflake, Discord.Message>) => {
             try {
                 await Util.DelayedPromise(this.config.limits.discordSendDelay);
-                const promiseArr: (() => Promise<void>)[] = [];
+                const promiseArr: Promise<void>[] = [];
                 msgs.forEach((msg) => {
-                    promiseArr.push(async () => {
+                    promiseArr.push((async () => {
                         try {
                             await this.waitUnlock(msg.channel);
                             this.clientFactory.bindMetricsToChannel(msg.channel as Discord.TextChannel);
@@ -267,7 +335,7 @@ export class DiscordBot {
                         } catch (err) {
                             log.error("Caught while handling 'messageDeleteBulk'", err);
                         }
-                    });
+                    })());
                 });
                 await Promise.all(promiseArr);
             } catch (err) {
@@ -308,6 +376,32 @@ export class DiscordBot {
                 log.error("Exception thrown while handling \"message\" event", err);
             }
         });
+        client.on("messageReactionAdd", async (reaction: Discord.MessageReaction, user: Discord.User) => {
+            try {
+                await this.OnMessageReactionAdd(reaction, user);
+            } catch (err) { log.error("Exception thrown while handling \"messageReactionAdd\" event", err); }
+        });
+        client.on("messageReactionRemove", async (reaction: Discord.MessageReaction, user: Discord.User) => {
+            try {
+                await this.OnMessageReactionRemove(reaction, user);
+            } catch (err) { log.error("Exception thrown while handling \"messageReactionRemove\" event", err); }
+        });
+        client.on("channelPinsUpdate", async (channel: Discord.Channel) => {
+            try {
+                if (channel.type === "text") {
+                    await this.pinSync.OnDiscordPinsUpdate(channel as Discord.TextChannel);
+                }
+            } catch (err) { log.error("Exception thrown while handling \"channelPinsUpdate\" event", err); }
+        });
+        client.on("raw", (packet) => {
+            // The raw packet arrives before the "message" event for the same message.
+            if (packet.t === "MESSAGE_CREATE" && packet.d.message_reference && packet.d.message_reference.message_id) {
+                this.messageReferences.set(packet.d.id, packet.d.message_reference);
+            }
+            if (packet.t === "MESSAGE_CREATE" && packet.d.sticker_items && packet.d.sticker_items.length) {
+                this.messageStickers.set(packet.d.id, packet.d.sticker_items);
+            }
+        });
         const jsLog = new Log("discord.js");
 
         client.on("userUpdate", async (_, user) => {
@@ -336,6 +430,12 @@ export class DiscordBot {
         log.info("Discord bot client logged in.");
         this.bot = client;
 
+        try {
+            await this.provisioner.RestoreBridgeRequests(client);
+        } catch (err) {
+            log.error("Failed to restore pending bridge requests", err);
+        }
+
         if (!this.config.bridge.disablePresence) {
             if (!this.config.bridge.presenceInterval) {
                 this.config.bridge.presenceInterval = MIN_PRESENCE_UPDATE_DELAY;
@@ -351,12 +451,51 @@ export class DiscordBot {
                 Math.max(this.config.bridge.presenceInterval, MIN_PRESENCE_UPDATE_DELAY),
             );
         }
+
+        // Puppets have to be logged in to receive their direct messages. Don't hold up startup for this.
+        this.clientFactory.loginAllPuppets().catch((err) => {
+            log.error("Failed to log in puppets", err);
+        });
     }
 
     public GetBotId(): string {
         return this.bot.user.id;
     }
 
+    /**
+     * Gets when a message was last bridged in either direction in a channel, if ever.
+     */
+    public async GetLastBridgedMessageTime(channel: Discord.TextChannel): Promise<Date|null> {
+        const messageId = await this.store.getLastBridgedMessageId(channel.id);
+        return messageId ? Discord.SnowflakeUtil.deconstruct(messageId).date : null;
+    }
+
+    /**
+     * Tells a Matrix user in a direct message that their puppet stopped working.
+     */
+    public async NotifyTokenInvalidated(userId: string, discordId: string) {
+        const intent = this.bridge.getIntent();
+        const room = await intent.createRoom({
+            createAsClient: true,
+            options: {
+                invite: [userId],
+                is_direct: true,
+                name: "Discord login",
+                preset: "trusted_private_chat",
+                visibility: "private",
+            },
+        });
+        await intent.sendMessage(room.room_id, {
+            // tslint:disable prefer-template
+            body: `I can no longer log in to your Discord account \`${discordId}\`, ` +
+                "so your messages are relayed by the bot again. This usually happens after changing your password.\n" +
+                "To log in again, send `!discord login <token>` in this room.",
+            // tslint:enable prefer-template
+            msgtype: "m.notice",
+        });
+        log.info(`Notified ${userId} about the invalidated token of ${discordId} in ${room.room_id}`);
+    }
+
     public GetGuilds(): Discord.Guild[] {
         return this.bot.guilds.array();
     }
@@ -368,6 +507,10 @@ export class DiscordBot {
         if (this.bot.guilds.has(guildId) ) {
             const guild = this.bot.guilds.get(guildId);
             return guild!.channels.filter((channel) => {
+                if (!channelName) {
+                    // Without a name, list every channel that can be bridged.
+                    return channel.type === "text";
+                }
                 return channel.name.toLowerCase() === channelName.toLowerCase(); // Implement searching in the future.
             }).map((channel) => {
                 return {
@@ -389,7 +532,7 @@ export class DiscordBot {
     public async LookupRoom(server: string, room: string, sender?: string): Promise<ChannelLookupResult> {
         const hasSender = sender !== null && sender !== undefined;
         try {
-            const client = await this.clientFactory.getClient(sender);
+            const client = await this.clientFactory.getClient(sender, server);
             const guild = client.guilds.get(server);
             if (!guild) {
                 throw new Error(`Guild "${server}" not found`);
@@ -428,12 +571,11 @@ export class DiscordBot {
         opts: Discord.MessageOptions,
         roomLookup: ChannelLookupResult,
         event: IMatrixEvent,
-    ): Promise<void> {
+    ): Promise<Discord.Message[]> {
         const chan = roomLookup.channel;
         const botUser = roomLookup.botUser;
         const embed = embedSet.messageEmbed;
 
-        let msg: Discord.Message | null | (Discord.Message | null)[] = null;
         let hook: Discord.Webhook | undefined;
         if (botUser) {
             const webhooks = await chan.fetchWebhooks();
@@ -450,40 +592,214 @@ export class DiscordBot {
                 log.error("Unable to create \"_matrix\" webhook. ", err);
             }
         }
+        // Webhooks can't reference messages, so quote the replied message instead.
+        const quote = botUser && hook && embedSet.replyMessage ? this.GetReplyQuote(embedSet.replyMessage) : "";
+        const description = embed.description || "";
+        // The bot sends an embed if it has no webhook, which allows a longer description.
+        let parts = Util.SplitMessage(
+            quote + description,
+            botUser && !hook ? EMBED_DESCRIPTION_LENGTH : DISCORD_MESSAGE_LENGTH,
+        );
+        const maxSplits = this.config.limits.maxMessageSplits;
+        if (maxSplits > 0 && parts.length > maxSplits && !opts.file) {
+            log.verbose(`Sending ${event.event_id} as a file, as it would need ${parts.length} messages`);
+            opts.file = {
+                attachment: Buffer.from(description),
+                name: "message.txt",
+            };
+            parts = [`${quote}*This message was too long for Discord, so it has been attached as a file.*`];
+        }
+
+        let msgs: Discord.Message[] = [];
         try {
             this.lockChannel(chan);
-            if (!botUser) {
-                // NOTE: Don't send replies to discord if we are a puppet.
-                msg = await chan.send(embed.description, opts);
-            } else if (hook) {
-                MetricPeg.get.remoteCall("hook.send");
-                msg = await hook.send(embed.description, {
-                    avatarURL: embed!.author!.icon_url,
-                    embeds: embedSet.replyEmbed ? [embedSet.replyEmbed] : undefined,
-                    files: opts.file ? [opts.file] : undefined,
-                    username: embed!.author!.name,
-                } as Discord.WebhookMessageOptions);
-            } else {
-                if (embedSet.replyEmbed) {
-                    embed.addField("Replying to", embedSet.replyEmbed!.author!.name);
-                    embed.addField("Reply text", embedSet.replyEmbed.description);
+            for (let i = 0; i < parts.length; i++) {
+                const replyMessage = i === 0 ? embedSet.replyMessage : undefined;
+                // Attachments go with the last part of the message.
+                const partOpts: Discord.MessageOptions = i === parts.length - 1 ? opts : {};
+                let res: Discord.Message | Discord.Message[];
+                if (!botUser) {
+                    if (replyMessage) {
+                        res = await this.sendReply(chan, replyMessage, parts[i], partOpts);
+                    } else {
+                        // NOTE: Don't send reply embeds to discord if we are a puppet.
+                        res = await chan.send(parts[i], partOpts);
+                    }
+                } else if (hook) {
+                    MetricPeg.get.remoteCall("hook.send");
+                    res = await hook.send(parts[i], {
+                        avatarURL: embed!.author!.icon_url,
+                        embeds: i === 0 && embedSet.replyEmbed ? [embedSet.replyEmbed] : undefined,
+                        files: partOpts.file ? [partOpts.file] : undefined,
+                        username: embed!.author!.name,
+                    } as Discord.WebhookMessageOptions);
+                } else {
+                    const partEmbed = i === 0 ? embed : new Discord.RichEmbed({ author: embed.author });
+                    partEmbed.setDescription(parts[i]);
+                    if (i === 0 && embedSet.replyEmbed) {
+                        partEmbed.addField("Replying to", embedSet.replyEmbed!.author!.name);
+                        partEmbed.addField("Reply text", embedSet.replyEmbed.description);
+                    }
+                    partOpts.embed = partEmbed;
+                    if (replyMessage) {
+                        res = await this.sendReply(chan, replyMessage, "", partOpts);
+                    } else {
+                        res = await chan.send("", partOpts);
+                    }
                 }
-                opts.embed = embed;
-                msg = await chan.send("", opts);
-            }
-            // Don't block on this.
-            this.StoreMessagesSent(msg, chan, event).then(() => {
-                this.unlockChannel(chan);
-            }).catch(() => {
-                log.warn("Failed to store sent message for ", event.event_id);
-            });
-
+                msgs = msgs.concat(res);
+            }
         } catch (err) {
             log.error("Couldn't send message. ", err);
         }
+        // Don't block on this. Every part is stored, so redactions and edits reach all of them.
+        this.StoreMessagesSent(msgs, chan, event).then(() => {
+            this.unlockChannel(chan);
+        }).catch(() => {
+            log.warn("Failed to store sent message for ", event.event_id);
+        });
+        return msgs;
+    }
+
+    public async edit(
+        embedSet: IMatrixEventProcessorResult,
+        roomLookup: ChannelLookupResult,
+        originalEventId: string,
+        event: IMatrixEvent,
+    ): Promise<boolean> {
+        const chan = roomLookup.channel;
+        const embed = embedSet.messageEmbed;
+        const storeEvent = await this.store.Get(DbEvent, {matrix_id: `${originalEventId};${event.room_id}`});
+        const msgIds: string[] = [];
+        while (storeEvent && storeEvent.Result && storeEvent.Next()) {
+            if (storeEvent.ChannelId === chan.id) {
+                msgIds.push(storeEvent.DiscordId);
+            }
+        }
+        if (msgIds.length === 0) {
+            log.verbose(`Edited event ${originalEventId} was not in the store`);
+            return false;
+        }
+        // Snowflakes are numeric, so this puts the parts of a split message in order.
+        msgIds.sort((a, b) => a.length - b.length || a.localeCompare(b));
+        try {
+            const msgs = await Promise.all(msgIds.map(async (id) => chan.fetchMessage(id)));
+            const isBotMessage = msgs[0].author.id === chan.client.user.id;
+            let hook: Discord.Webhook | undefined;
+            if (!isBotMessage && msgs[0].webhookID) {
+                const botChannel = roomLookup.botUser ? chan :
+                    (await this.LookupRoom(chan.guild.id, chan.id)).channel;
+                hook = (await botChannel.fetchWebhooks()).filterArray((h) => h.name === "_matrix").pop();
+            }
+            if (!isBotMessage && (!hook || hook.id !== msgs[0].webhookID)) {
+                log.warn(`Message ${msgs[0].id} was not sent by us, so it cannot be edited`);
+                return false;
+            }
+            const parts = Util.SplitMessage(
+                embed.description || "",
+                isBotMessage && roomLookup.botUser ? EMBED_DESCRIPTION_LENGTH : DISCORD_MESSAGE_LENGTH,
+            );
+            if (parts.length > msgs.length) {
+                log.info(`Edit of ${originalEventId} needs more messages than were sent, so it can't be applied`);
+                return false;
+            }
+            this.sentEdits.push(...msgIds);
+            for (let i = 0; i < msgs.length; i++) {
+                if (i >= parts.length) {
+                    await this.DeleteEditedPart(msgs[i], originalEventId, event.room_id);
+                } else if (hook) {
+                    await this.editWebhookMessage(hook, msgs[i].id, parts[i]);
+                } else {
+                    MetricPeg.get.remoteCall("message.edit");
+                    if (roomLookup.botUser) {
+                        // The bot sends messages as an embed when it has no webhook.
+                        const partEmbed = i === 0 ? embed : new Discord.RichEmbed({ author: embed.author });
+                        partEmbed.setDescription(parts[i]);
+                        await msgs[i].edit("", { embed: partEmbed });
+                    } else {
+                        await msgs[i].edit(parts[i]);
+                    }
+                }
+            }
+            return true;
+        } catch (err) {
+            log.warn(`Failed to edit message ${msgIds[0]}`, err);
+        }
+        this.sentEdits = this.sentEdits.filter((id) => !msgIds.includes(id));
+        return false;
+    }
+
+    /**
+     * Resolves the Discord message a Matrix reply points to, if it was bridged to the given channel.
+     */
+    public async GetReplyMessage(event: IMatrixEvent, chan: Discord.TextChannel): Promise<Discord.Message|null> {
+        const relatesTo = event.content ? event.content["m.relates_to"] : undefined;
+        if (!relatesTo || !relatesTo["m.in_reply_to"]) {
+            return null;
+        }
+        const eventId = relatesTo["m.in_reply_to"].event_id;
+        const storeEvent = await this.store.Get(DbEvent, {matrix_id: `${eventId};${event.room_id}`});
+        if (!storeEvent || !storeEvent.Result) {
+            return null;
+        }
+        while (storeEvent.Next()) {
+            if (storeEvent.ChannelId !== chan.id) {
+                continue;
+            }
+            try {
+                return await chan.fetchMessage(storeEvent.DiscordId);
+            } catch (err) {
+                log.verbose(`Could not fetch replied message ${storeEvent.DiscordId}`, err);
+            }
+        }
+        return null;
+    }
+
+    public async ProcessMatrixReaction(event: IMatrixEvent) {
+        const relatesTo = event.content!["m.relates_to"];
+        if (!relatesTo || relatesTo.rel_type !== "m.annotation" || !relatesTo.key) {
+            log.verbose("Reaction was missing an annotation, ignoring");
+            return;
+        }
+        const storeEvent = await this.store.Get(DbEvent, {matrix_id: `${relatesTo.event_id};${event.room_id}`});
+        if (!storeEvent || !storeEvent.Result || !storeEvent.Next()) {
+            log.verbose(`Reacted event ${relatesTo.event_id} was not in the store`);
+            return;
+        }
+        const chan = (await this.LookupRoom(storeEvent.GuildId, storeEvent.ChannelId, event.sender)).channel;
+        let emoji: string|Discord.Emoji = relatesTo.key;
+        if (relatesTo.key.startsWith("mxc://")) {
+            const dbEmoji = await this.GetEmojiByMxc(relatesTo.key);
+            const customEmoji = chan.client.emojis.get(dbEmoji.EmojiId);
+            if (!customEmoji) {
+                log.warn(`Emoji ${dbEmoji.EmojiId} is not available to ${chan.client.user.id}`);
+                return;
+            }
+            emoji = customEmoji;
+        }
+        const msg = await chan.fetchMessage(storeEvent.DiscordId);
+        const reaction = new DbReaction();
+        reaction.MatrixId = `${event.event_id};${event.room_id}`;
+        reaction.DiscordMsgId = msg.id;
+        reaction.DiscordUserId = chan.client.user.id;
+        reaction.Emoji = typeof(emoji) === "string" ? emoji : emoji.id;
+        // Store the reaction first, so the echo from Discord is recognised.
+        await this.store.Insert(reaction);
+        try {
+            MetricPeg.get.remoteCall("message.react");
+            await msg.react(emoji);
+        } catch (err) {
+            log.warn(`Failed to react to ${msg.id}`, err);
+            await this.store.Delete(reaction);
+        }
     }
 
     public async ProcessMatrixRedact(event: IMatrixEvent) {
+        const storeReaction = await this.store.Get(DbReaction, {matrix_id: `${event.redacts};${event.room_id}`});
+        if (storeReaction && storeReaction.Next()) {
+            await this.RemoveDiscordReaction(storeReaction, event);
+            return;
+        }
         if (this.config.bridge.disableDeletionForwarding) {
             return;
         }
@@ -582,6 +898,42 @@ export class DiscordBot {
         return dbEmoji.MxcUrl;
     }
 
+    public async GetEmbedImage(url: string): Promise<string> {
+        let mxcUrl = this.embedImageCache.get(url);
+        if (!mxcUrl) {
+            mxcUrl = (await Util.UploadContentFromUrl(url, this.bridge.getIntent(), null)).mxcUrl;
+            this.embedImageCache.set(url, mxcUrl);
+        }
+        return mxcUrl;
+    }
+
+    public async GetSticker(sticker: IDiscordStickerItem): Promise<DbSticker> {
+        if (!sticker.id.match(/^\d+$/)) {
+            throw new Error("Non-numerical ID");
+        }
+        const dbSticker = await this.store.Get(DbSticker, {sticker_id: sticker.id});
+        if (!dbSticker) {
+            throw new Error("Couldn't fetch from store");
+        }
+        if (!dbSticker.Result) {
+            // Matrix clients can't render Lottie animations, so ask the media proxy for a static PNG instead.
+            const ext = sticker.format_type === STICKER_FORMAT_GIF ? "gif" : "png";
+            const url = sticker.format_type === STICKER_FORMAT_LOTTIE ?
+                `https://media.discordapp.net/stickers/${sticker.id}.png?size=${STICKER_SIZE}&passthrough=false` :
+                `https://media.discordapp.net/stickers/${sticker.id}.${ext}?size=${STICKER_SIZE}`;
+            const intent = this.bridge.getIntent();
+            const upload = await Util.UploadContentFromUrl(url, intent, `${sticker.name}.${ext}`);
+            dbSticker.StickerId = sticker.id;
+            dbSticker.Name = sticker.name;
+            dbSticker.FormatType = sticker.format_type;
+            dbSticker.MxcUrl = upload.mxcUrl;
+            dbSticker.MimeType = ext === "gif" ? "image/gif" : "image/png";
+            dbSticker.Size = upload.size;
+            await this.store.Insert(dbSticker);
+        }
+        return dbSticker;
+    }
+
     public async GetRoomIdsFromGuild(
             guild: Discord.Guild, member?: Discord.GuildMember, useCache: boolean = true): Promise<string[]> {
         if (useCache) {
@@ -710,6 +1062,242 @@ export class DiscordBot {
         return dbEmoji;
     }
 
+    /**
+     * Looks up the Matrix event of a bridged Discord message in every room it was sent to.
+     * A message with attachments maps to several events in a room. As its text is always
+     * sent last, the event of the text is the one returned for that room.
+     * @param discordId The ID of the Discord message.
+     * @returns A map of room IDs to event IDs, empty if the message was never bridged.
+     */
+    public async GetEventIdsByRoom(discordId: string): Promise<Map<string, string>> {
+        const eventIds: Map<string, string> = new Map(); // [roomId]: eventId
+        const storeEvent = await this.store.Get(DbEvent, {discord_id: discordId});
+        while (storeEvent && storeEvent.Result && storeEvent.Next()) {
+            const matrixIds = storeEvent.MatrixId.split(";");
+            eventIds.set(matrixIds[1], matrixIds[0]);
+        }
+        return eventIds;
+    }
+
+    public async GetStickerUrlByMxc(mxc: string): Promise<string|null> {
+        const dbSticker = await this.store.Get(DbMatrixSticker, {mxc_url: mxc});
+        if (!dbSticker || !dbSticker.Result) {
+            return null;
+        }
+        if (Date.now() - dbSticker.CreatedAt > STICKER_URL_LIFETIME) {
+            log.verbose(`The Discord URL of sticker ${mxc} may have expired, uploading it again`);
+            return null;
+        }
+        return dbSticker.DiscordUrl;
+    }
+
+    public async StoreStickerUrl(mxc: string, msgs: Discord.Message[]): Promise<void> {
+        const msg = msgs.find((m) => m.attachments && m.attachments.size > 0);
+        if (!msg) {
+            log.verbose(`Sticker ${mxc} was not sent as an attachment, not caching it`);
+            return;
+        }
+        const dbSticker = await this.store.Get(DbMatrixSticker, {mxc_url: mxc});
+        if (!dbSticker) {
+            return;
+        }
+        dbSticker.DiscordUrl = msg.attachments.first().url;
+        if (dbSticker.Result) {
+            await this.store.Update(dbSticker);
+        } else {
+            dbSticker.MxcUrl = mxc;
+            await this.store.Insert(dbSticker);
+        }
+    }
+
+    private async RemoveDiscordReaction(storeReaction: DbReaction, event: IMatrixEvent) {
+        log.info(`Removing reaction ${storeReaction.Emoji} from ${storeReaction.DiscordMsgId}`);
+        await this.store.Delete(storeReaction);
+        const remaining = await this.store.Get(DbReaction, {
+            discord_msg_id: storeReaction.DiscordMsgId,
+            discord_user_id: storeReaction.DiscordUserId,
+            emoji: storeReaction.Emoji,
+        });
+        if (remaining && remaining.Result) {
+            // Other Matrix users share this reaction through the bot, so keep it.
+            return;
+        }
+        const storeEvent = await this.store.Get(DbEvent, {discord_id: storeReaction.DiscordMsgId});
+        if (!storeEvent || !storeEvent.Next()) {
+            return;
+        }
+        const chan = (await this.LookupRoom(storeEvent.GuildId, storeEvent.ChannelId, event.sender)).channel;
+        try {
+            const msg = await chan.fetchMessage(storeReaction.DiscordMsgId);
+            const reaction = msg.reactions.find((r) => (r.emoji.id || r.emoji.name) === storeReaction.Emoji);
+            if (reaction) {
+                MetricPeg.get.remoteCall("reaction.remove");
+                await reaction.remove(storeReaction.DiscordUserId);
+            }
+        } catch (err) {
+            log.warn(`Failed to remove reaction from ${storeReaction.DiscordMsgId}`, err);
+        }
+    }
+
+    private async OnMessageReactionAdd(reaction: Discord.MessageReaction, user: Discord.User) {
+        if (user.id === this.GetBotId()) {
+            // We don't support double bridging.
+            return;
+        }
+        if (await this.provisioner.MarkApprovedByReaction(reaction, user)) {
+            return;
+        }
+        const msg = reaction.message;
+        const emojiKey = reaction.emoji.id || reaction.emoji.name;
+        const existing = await this.store.Get(DbReaction, {
+            discord_msg_id: msg.id,
+            discord_user_id: user.id,
+            emoji: emojiKey,
+        });
+        if (existing && existing.Result) {
+            log.verbose("Got repeated reaction, ignoring.");
+            return;
+        }
+        const targets = await this.GetEventIdsByRoom(msg.id);
+        if (targets.size === 0) {
+            log.verbose(`Reacted message ${msg.id} was not in the store`);
+            return;
+        }
+        let key = reaction.emoji.name;
+        if (reaction.emoji.id) {
+            // Only emojis of guilds the bot is in know whether they are animated.
+            const animated = reaction.emoji instanceof Discord.Emoji && reaction.emoji.animated;
+            key = await this.GetEmoji(reaction.emoji.name, animated, reaction.emoji.id);
+        }
+        const intent = this.GetIntentFromDiscordMember(user);
+        await Util.AsyncForEach(Array.from(targets.keys()), async (room: string) => {
+            const trySend = async () => intent.sendEvent(room, "m.reaction", {
+                "m.relates_to": {
+                    event_id: targets.get(room),
+                    key,
+                    rel_type: "m.annotation",
+                },
+            });
+            let res;
+            try {
+                res = await trySend();
+            } catch (e) {
+                if (e.errcode !== "M_FORBIDDEN" && e.errcode !== "M_GUEST_ACCESS_FORBIDDEN") {
+                    log.error("Failed to send reaction into room.", e);
+                    return;
+                }
+                const member = msg.guild ? msg.guild.member(user) : null;
+                await this.userSync.JoinRoom(member || user, room);
+                res = await trySend();
+            }
+            const dbReaction = new DbReaction();
+            dbReaction.MatrixId = `${res.event_id};${room}`;
+            dbReaction.DiscordMsgId = msg.id;
+            dbReaction.DiscordUserId = user.id;
+            dbReaction.Emoji = emojiKey;
+            await this.store.Insert(dbReaction);
+        });
+    }
+
+    private async OnMessageReactionRemove(reaction: Discord.MessageReaction, user: Discord.User) {
+        if (user.id === this.GetBotId()) {
+            return;
+        }
+        const storeReaction = await this.store.Get(DbReaction, {
+            discord_msg_id: reaction.message.id,
+            discord_user_id: user.id,
+            emoji: reaction.emoji.id || reaction.emoji.name,
+        });
+        if (!storeReaction || !storeReaction.Result) {
+            log.verbose(`Removed reaction on ${reaction.message.id} was not in the store`);
+            return;
+        }
+        const botIntent = this.bridge.getIntent();
+        const intent = this.GetIntentFromDiscordMember(user);
+        while (storeReaction.Next()) {
+            const matrixIds = storeReaction.MatrixId.split(";");
+            await this.store.Delete(storeReaction);
+            try {
+                await intent.getClient().redactEvent(matrixIds[1], matrixIds[0]);
+            } catch (ex) {
+                log.warn(`Failed to redact reaction ${matrixIds[0]} as the author, retrying as bot`);
+                try {
+                    await botIntent.getClient().redactEvent(matrixIds[1], matrixIds[0]);
+                } catch (ex) {
+                    log.warn(`Failed to redact reaction ${matrixIds[0]}, giving up`, ex);
+                }
+            }
+        }
+    }
+
+    private async sendReply(
+        chan: Discord.TextChannel,
+        replyMessage: Discord.Message,
+        content: string,
+        opts: Discord.MessageOptions,
+    ): Promise<Discord.Message> {
+        MetricPeg.get.remoteCall("message.reply");
+        // The bridge only attaches files as FileOptions, never by path.
+        const file = typeof opts.file === "object" ? opts.file : undefined;
+        // discord.js can't send message references, so post the message to the REST endpoint directly.
+        // tslint:disable-next-line no-any
+        const data = await (chan.client as any).rest.makeRequest(
+            "post",
+            `/channels/${chan.id}/messages`,
+            true,
+            {
+                content,
+                embed: opts.embed,
+                message_reference: {
+                    channel_id: chan.id,
+                    guild_id: chan.guild.id,
+                    message_id: replyMessage.id,
+                },
+            },
+            file ? [{ file: file.attachment, name: file.name }] : undefined,
+        );
+        return new Discord.Message(chan, data, chan.client);
+    }
+
+    private GetReplyQuote(replyMessage: Discord.Message): string {
+        const chan = replyMessage.channel as Discord.TextChannel;
+        const link = `https://discordapp.com/channels/${chan.guild.id}/${chan.id}/${replyMessage.id}`;
+        // Webhook authors can't be mentioned, so just name them.
+        const author = replyMessage.webhookID ? `**${replyMessage.author.username}**` : `<@${replyMessage.author.id}>`;
+        let text = replyMessage.content.split("\n")[0];
+        if (!text) {
+            text = replyMessage.attachments.size ? "*attachment*" : "*embed*";
+        } else if (text.length > REPLY_QUOTE_LENGTH) {
+            text = `${text.substring(0, REPLY_QUOTE_LENGTH)}…`;
+        }
+        // \u200B is the zero-width space, so quoted mentions don't ping anyone again.
+        text = text.replace(/<@/g, "<@\u200B").replace(/@(everyone|here)/g, "@\u200B$1");
+        return `> [Reply](${link}) to ${author}: ${text}\n`;
+    }
+
+    private async DeleteEditedPart(msg: Discord.Message, eventId: string, roomId: string) {
+        // Forget the part first, so deleting it doesn't redact the whole Matrix event.
+        const storeEvent = new DbEvent();
+        storeEvent.MatrixId = `${eventId};${roomId}`;
+        storeEvent.DiscordId = msg.id;
+        await this.store.Delete(storeEvent);
+        this.lockChannel(msg.channel);
+        await msg.delete();
+        this.unlockChannel(msg.channel);
+    }
+
+    private async editWebhookMessage(hook: Discord.Webhook, msgId: string, content: string) {
+        MetricPeg.get.remoteCall("hook.edit");
+        // discord.js has no helper for editing webhook messages, so use the REST endpoint directly.
+        // tslint:disable-next-line no-any
+        await (hook.client as any).rest.makeRequest(
+            "patch",
+            `/webhooks/${hook.id}/${hook.token}/messages/${msgId}`,
+            false,
+            { content },
+        );
+    }
+
     private async SendMatrixMessage(matrixMsg: DiscordMessageProcessorResult, chan: Discord.Channel,
                                     guild: Discord.Guild, author: Discord.User,
                                     msgID: string): Promise<boolean> {
@@ -749,6 +1337,10 @@ export class DiscordBot {
     }
 
     private async OnMessage(msg: Discord.Message) {
+        const reference = this.messageReferences.get(msg.id);
+        this.messageReferences.delete(msg.id);
+        const stickers = this.messageStickers.get(msg.id) || [];
+        this.messageStickers.delete(msg.id);
         const indexOfMsg = this.sentMessages.indexOf(msg.id);
         if (indexOfMsg !== -1) {
             log.verbose("Got repeated message, ignoring.");
@@ -816,13 +1408,45 @@ export class DiscordBot {
                     info.w = attachment.width;
                     info.h = attachment.height;
                 }
+                const attachmentContent = {
+                    body: attachment.filename,
+                    external_url: attachment.url,
+                    info,
+                    msgtype,
+                    url: content.mxcUrl,
+                } as IMatrixEventContent;
+                if (attachment.filename.startsWith("SPOILER_")) {
+                    attachmentContent["page.codeberg.everypizza.msc4193.spoiler"] = true;
+                }
+                await Util.AsyncForEach(rooms, async (room) => {
+                    const res = await intent.sendMessage(room, attachmentContent);
+                    this.lastEventIds[room] = res.event_id;
+                    const evt = new DbEvent();
+                    evt.MatrixId = `${res.event_id};${room}`;
+                    evt.DiscordId = msg.id;
+                    evt.ChannelId = msg.channel.id;
+                    evt.GuildId = msg.guild.id;
+                    await this.store.Insert(evt);
+                });
+            });
+            await Util.AsyncForEach(stickers, async (sticker) => {
+                let dbSticker: DbSticker;
+                try {
+                    dbSticker = await this.GetSticker(sticker);
+                } catch (err) {
+                    log.warn(`Failed to upload sticker ${sticker.id}`, err);
+                    return;
+                }
                 await Util.AsyncForEach(rooms, async (room) => {
-                    const res = await intent.sendMessage(room, {
-                        body: attachment.filename,
-                        external_url: attachment.url,
-                        info,
-                        msgtype,
-                        url: content.mxcUrl,
+                    const res = await intent.sendEvent(room, "m.sticker", {
+                        body: dbSticker.Name,
+                        info: {
+                            h: STICKER_SIZE,
+                            mimetype: dbSticker.MimeType,
+                            size: dbSticker.Size,
+                            w: STICKER_SIZE,
+                        },
+                        url: dbSticker.MxcUrl,
                     });
                     this.lastEventIds[room] = res.event_id;
                     const evt = new DbEvent();
@@ -840,13 +1464,18 @@ export class DiscordBot {
             if (!result.body) {
                 return;
             }
+            const replyTargets = reference ? await this.GetEventIdsByRoom(reference.message_id) : null;
             await Util.AsyncForEach(rooms, async (room) => {
-                const trySend = async () => intent.sendMessage(room, {
+                let content: IMatrixEventContent = {
                     body: result.body,
                     format: "org.matrix.custom.html",
                     formatted_body: result.formattedBody,
                     msgtype: result.msgtype,
-                });
+                };
+                if (reference && replyTargets) {
+                    content = await this.GetReplyContent(result, reference, room, replyTargets.get(room));
+                }
+                const trySend = async () => intent.sendMessage(room, content);
                 const afterSend = async (re) => {
                     this.lastEventIds[room] = re.event_id;
                     const evt = new DbEvent();
@@ -881,12 +1510,143 @@ export class DiscordBot {
         }
     }
 
+    private async GetReplyContent(
+        result: DiscordMessageProcessorResult,
+        reference: IDiscordMessageReference,
+        roomId: string,
+        eventId?: string,
+    ): Promise<IMatrixEventContent> {
+        let reply: DiscordMessageProcessorResult | undefined;
+        if (eventId) {
+            try {
+                const replyEvent = await this.bridge.getIntent().getEvent(roomId, eventId);
+                reply = this.discordMsgProcessor.FormatMatrixReply(result, replyEvent);
+            } catch (err) {
+                log.warn(`Failed to fetch replied event ${eventId}, quoting the Discord message instead`, err);
+            }
+        }
+        if (!reply) {
+            let repliedMsg: Discord.Message | null = null;
+            try {
+                const chan = this.bot.channels.get(reference.channel_id) as Discord.TextChannel;
+                repliedMsg = chan ? await chan.fetchMessage(reference.message_id) : null;
+            } catch (err) {
+                log.verbose(`Could not fetch replied message ${reference.message_id}`, err);
+            }
+            reply = await this.discordMsgProcessor.FormatQuoteReply(result, repliedMsg);
+        }
+        const content: IMatrixEventContent = {
+            body: reply.body,
+            format: "org.matrix.custom.html",
+            formatted_body: reply.formattedBody,
+            msgtype: reply.msgtype,
+        };
+        if (eventId && reply.formattedBody.startsWith("<mx-reply>")) {
+            content["m.relates_to"] = {
+                "m.in_reply_to": {
+                    event_id: eventId,
+                },
+            };
+        }
+        return content;
+    }
+
     private async OnMessageUpdate(oldMsg: Discord.Message, newMsg: Discord.Message) {
-        return;
+        // Our own edits are forgotten first, as edits of embeds leave the content unchanged.
+        const indexOfEdit = this.sentEdits.indexOf(newMsg.id);
+        if (indexOfEdit !== -1) {
+            log.verbose("Got our own edit, ignoring.");
+            this.sentEdits.splice(indexOfEdit, 1);
+            return;
+        }
+        // Check if an edit was actually made
+        if (oldMsg.content === newMsg.content) {
+            return;
+        }
+        log.info(`Got edit event for ${newMsg.id}`);
+        const editTargets = await this.GetEventIdsByRoom(oldMsg.id);
+        if (editTargets.size === 0) {
+            log.info(`Edited message ${newMsg.id} was never bridged, sending the edit as a new message`);
+            const editedMsg = await this.discordMsgProcessor.FormatEdit(oldMsg, newMsg);
+            await this.SendMatrixMessage(editedMsg, newMsg.channel, newMsg.guild, newMsg.author, newMsg.id);
+            return;
+        }
+
+        if (Array.from(editTargets.keys()).some((room) => editTargets.get(room) === this.lastEventIds[room])) {
+            log.info("Immediate edit, deleting and re-sending");
+            this.lockChannel(newMsg.channel);
+            // we need to delete the event off of the store
+            // else the delete bridging will try to delete it again
+            await this.DeleteDiscordMessage(oldMsg);
+            this.unlockChannel(newMsg.channel);
+            await this.OnMessage(newMsg);
+            return;
+        }
+
+        const newContent = await this.discordMsgProcessor.FormatMessage(newMsg);
+        const intent = this.GetIntentFromDiscordMember(newMsg.author, newMsg.webhookID);
+        const oldContent = oldMsg.content;
+        await Util.AsyncForEach(Array.from(editTargets.keys()), async (room: string) => {
+            const eventId = editTargets.get(room)!;
+            // FormatEdit rewrites the content of the old message, so restore it for every room.
+            oldMsg.content = oldContent;
+            const fallback = await this.discordMsgProcessor.FormatEdit(
+                oldMsg,
+                newMsg,
+                `https://matrix.to/#/${room}/${eventId}`,
+            );
+            try {
+                await intent.sendMessage(room, {
+                    "body": fallback.body,
+                    "format": "org.matrix.custom.html",
+                    "formatted_body": fallback.formattedBody,
+                    "m.new_content": {
+                        body: newContent.body,
+                        format: "org.matrix.custom.html",
+                        formatted_body: newContent.formattedBody,
+                        msgtype: newContent.msgtype,
+                    },
+                    "m.relates_to": {
+                        event_id: eventId,
+                        rel_type: "m.replace",
+                    },
+                    "msgtype": newContent.msgtype,
+                });
+            } catch (err) {
+                log.warn(`Failed to send edit of ${eventId} into ${room}`, err);
+            }
+        });
     }
 
     private async DeleteDiscordMessage(msg: Discord.Message) {
-        return;
+        log.info(`Got delete event for ${msg.id}`);
+        const storeEvent = await this.store.Get(DbEvent, {discord_id: msg.id});
+        if (!storeEvent || !storeEvent.Result) {
+            log.warn(`Could not redact because the event was not in the store.`);
+            return;
+        }
+        const botIntent = this.bridge.getIntent();
+        const intent = msg.author && msg.author.id !== this.GetBotId() ?
+            this.GetIntentFromDiscordMember(msg.author, msg.webhookID) : botIntent;
+        while (storeEvent.Next()) {
+            log.info(`Deleting discord msg ${storeEvent.DiscordId}`);
+            const matrixIds = storeEvent.MatrixId.split(";");
+            try {
+                await intent.getClient().redactEvent(matrixIds[1], matrixIds[0]);
+            } catch (ex) {
+                log.warn(`Failed to delete ${matrixIds[0]} as the author, retrying as bot`);
+                try {
+                    await botIntent.getClient().redactEvent(matrixIds[1], matrixIds[0]);
+                } catch (ex) {
+                    log.warn(`Failed to delete ${matrixIds[0]}, giving up`, ex);
+                }
+            }
+            try {
+                await this.store.Delete(storeEvent);
+            } catch (ex) {
+                log.warn(`Failed to remove ${storeEvent.MatrixId} from the store`, ex);
+            }
+        }
     }
 
     private async StoreMessagesSent(
@@ -21,10 +21,14 @@ import { DiscordBridgeConfig, DiscordBridgeConfigChannelDeleteOptions } from "./
 import { Bridge } from "matrix-appservice-bridge";
 import { Log } from "./log";
 import { DbRoomStore, IRoomStoreEntry } from "./db/roomstore";
+import { IMatrixEvent } from "./matrixtypes";
 
 const log = new Log("ChannelSync");
 
 const POWER_LEVEL_MESSAGE_TALK = 50;
+const POWER_LEVEL_MANAGE_CHANNEL = 50;
+const DISCORD_CHANNEL_NAME_LENGTH = 100;
+const DISCORD_TOPIC_LENGTH = 1024;
 
 const DEFAULT_CHANNEL_STATE = {
     iconMxcUrl: null,
@@ -57,6 +61,19 @@ export interface IChannelState {
 }
 
 export class ChannelSyncroniser {
+    /**
+     * Turns a Matrix room name into a valid Discord text channel name.
+     * Discord only allows lowercase names of up to 100 characters without spaces.
+     */
+    public static ToDiscordChannelName(name: string): string {
+        return name
+            .toLowerCase()
+            .replace(/[\s-]+/g, "-")
+            .replace(/[^a-z0-9_\-\u00C0-\uFFFF]/g, "")
+            .replace(/^-+|-+$/g, "")
+            .substring(0, DISCORD_CHANNEL_NAME_LENGTH);
+    }
+
     constructor(
         private bridge: Bridge,
         private config: DiscordBridgeConfig,
@@ -103,6 +120,92 @@ export class ChannelSyncroniser {
             }
             iconMxcUrl = channelState.iconMxcUrl;
         }
+
+        try {
+            await this.bot.SpaceSyncroniser.OnGuildUpdate(guild);
+        } catch (e) {
+            log.error("Failed to update the space of the guild", e);
+        }
+    }
+
+    /**
+     * Enables or disables pushing Matrix room name or topic changes to the bridged Discord channels.
+     * Returns false if the room has no plumbed Discord channels.
+     */
+    public async SetMatrixStatePush(roomId: string, state: "name"|"topic", enabled: boolean): Promise<boolean> {
+        const entries = (await this.roomStore.getEntriesByMatrixId(roomId)).filter((e) => e.remote!.get("plumbed"));
+        for (const entry of entries) {
+            entry.remote!.set(`update_discord_${state}`, enabled);
+            await this.roomStore.upsertEntry(entry);
+        }
+        return entries.length > 0;
+    }
+
+    /**
+     * Mutes or unmutes Matrix join/leave notices for the bridged Discord channels.
+     */
+    public async SetJoinLeaveNotices(roomId: string, enabled: boolean) {
+        for (const entry of await this.roomStore.getEntriesByMatrixId(roomId)) {
+            entry.remote!.set("mute_join_leave", !enabled);
+            await this.roomStore.upsertEntry(entry);
+        }
+    }
+
+    /**
+     * Pushes a Matrix room name or topic change to every bridged Discord channel that opted in.
+     */
+    public async OnMatrixStateUpdate(event: IMatrixEvent) {
+        const isName = event.type === "m.room.name";
+        const key = isName ? "update_discord_name" : "update_discord_topic";
+        const entries = (await this.roomStore.getEntriesByMatrixId(event.room_id)).filter((e) => e.remote!.get(key));
+        if (entries.length === 0) {
+            return;
+        }
+        const allowed = await Util.CheckMatrixPermission(
+            this.bridge.getIntent().getClient(),
+            event.sender,
+            event.room_id,
+            POWER_LEVEL_MANAGE_CHANNEL,
+            "events",
+            "m.room.power_levels",
+        );
+        if (!allowed) {
+            log.info(`${event.sender} may not change the Discord channel of ${event.room_id}`);
+            return;
+        }
+        for (const entry of entries) {
+            const remote = entry.remote!;
+            try {
+                const channel = (await this.bot.LookupRoom(
+                    remote.data.discord_guild!,
+                    remote.data.discord_channel!,
+                )).channel;
+                // Store the new state before Discord tells us about it, so it doesn't get synced back.
+                if (isName) {
+                    const name = ChannelSyncroniser.ToDiscordChannelName(event.content!.name || "");
+                    if (!name || name === channel.name) {
+                        continue;
+                    }
+                    remote.set("discord_name", Util.ApplyPatternString(this.config.channel.namePattern, {
+                        guild: channel.guild.name,
+                        name: "#" + name,
+                    }));
+                    await this.roomStore.upsertEntry(entry);
+                    await channel.setName(name, `Changed on Matrix by ${event.sender}`);
+                } else {
+                    const topic = (event.content!.topic || "").substring(0, DISCORD_TOPIC_LENGTH);
+                    if (topic === (channel.topic || "")) {
+                        continue;
+                    }
+                    remote.set("discord_topic", topic);
+                    await this.roomStore.upsertEntry(entry);
+                    await channel.setTopic(topic, `Changed on Matrix by ${event.sender}`);
+                }
+                log.info(`Updated the ${isName ? "name" : "topic"} of ${channel.id} from ${event.room_id}`);
+            } catch (err) {
+                log.warn(`Failed to update Discord channel ${remote.data.discord_channel} from ${event.room_id}`, err);
+            }
+        }
     }
 
     public async OnUnbridge(channel: Discord.Channel, roomId: string) {
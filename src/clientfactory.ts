@@ -22,14 +22,34 @@ import { MetricPeg } from "./metrics";
 
 const log = new Log("ClientFactory");
 
+// The gateway closes the connection with this code when a token stops working.
+const INVALID_TOKEN_CLOSE_CODE = 4004;
+// Errors discord.js rejects a login with when the token itself is wrong.
+const INVALID_TOKEN_ERRORS = [
+    "Incorrect login details were provided.",
+    "An invalid token was provided.",
+];
+
+type TokenInvalidatedCallback = (userId: string, discordId: string) => Promise<void>;
+type PuppetLoggedInCallback = (userId: string, discordId: string, client: DiscordClient) => void;
+
 export class DiscordClientFactory {
     private config: DiscordBridgeConfigAuth;
     private store: DiscordStore;
     private botClient: DiscordClient;
+    // Clients of the default account of each user.
     private clients: Map<string, DiscordClient>;
-    constructor(store: DiscordStore, config?: DiscordBridgeConfigAuth) {
+    // Clients of accounts a user prefers in some guilds, by user ID and then Discord ID.
+    private accountClients: Map<string, Map<string, DiscordClient>>;
+    constructor(
+        store: DiscordStore,
+        config?: DiscordBridgeConfigAuth,
+        private onTokenInvalidated?: TokenInvalidatedCallback,
+        private onPuppetLoggedIn?: PuppetLoggedInCallback,
+    ) {
         this.config = config!;
         this.clients = new Map();
+        this.accountClients = new Map();
         this.store = store;
     }
 
@@ -71,22 +91,199 @@ export class DiscordClientFactory {
         return id;
     }
 
-    public async getClient(userId: string | null = null): Promise<DiscordClient> {
+    /**
+     * Checks a Discord token and links it to a Matrix user, so they are puppeted from now on.
+     * Logging in to an account that is already linked replaces its token.
+     * @returns The ID of the Discord account the token belongs to.
+     */
+    public async addUserToken(userId: string, token: string): Promise<string> {
+        const discordId = await this.getDiscordId(token);
+        if ((await this.store.getUserDiscordIds(userId)).includes(discordId)) {
+            await this.store.deleteUserToken(discordId);
+        }
+        await this.store.addUserToken(userId, discordId, token);
+        // A client cached from before would still use the old token.
+        await this.removeClient(userId);
+        return discordId;
+    }
+
+    /**
+     * Forgets the token of one linked Discord account of a Matrix user.
+     * @returns False if the account was not linked to the user.
+     */
+    public async removeUserToken(userId: string, discordId: string): Promise<boolean> {
+        if (!(await this.store.getUserDiscordIds(userId)).includes(discordId)) {
+            return false;
+        }
+        await this.store.deleteUserToken(discordId);
+        await this.store.deletePreferredDiscordId(userId, discordId);
+        await this.removeClient(userId);
+        return true;
+    }
+
+    /**
+     * Forgets all Discord tokens of a Matrix user, so they are no longer puppeted.
+     * @returns The IDs of the Discord accounts that were removed.
+     */
+    public async removeUserTokens(userId: string): Promise<string[]> {
+        const discordIds = await this.store.getUserDiscordIds(userId);
+        for (const discordId of discordIds) {
+            await this.store.deleteUserToken(discordId);
+            await this.store.deletePreferredDiscordId(userId, discordId);
+        }
+        await this.removeClient(userId);
+        return discordIds;
+    }
+
+    /**
+     * Sets which linked Discord account is used for a user, either by default or in a single guild.
+     * @returns False if the account is not linked to the user.
+     */
+    public async setPreferredDiscordId(userId: string, discordId: string, guildId?: string): Promise<boolean> {
+        if (!(await this.store.getUserDiscordIds(userId)).includes(discordId)) {
+            return false;
+        }
+        await this.store.setPreferredDiscordId(userId, discordId, guildId);
+        await this.removeClient(userId);
+        return true;
+    }
+
+    /**
+     * Gets the linked Discord account used for a user by default, or null if they have none.
+     * This is the preferred account, falling back to the first one linked.
+     */
+    public async getDefaultDiscordId(userId: string): Promise<string|null> {
+        const discordIds = await this.store.getUserDiscordIds(userId);
+        if (discordIds.length === 0) {
+            return null;
+        }
+        const preferredId = await this.store.getPreferredDiscordId(userId);
+        return preferredId && discordIds.includes(preferredId) ? preferredId : discordIds[0];
+    }
+
+    public async getUserDiscordIds(userId: string): Promise<string[]> {
+        return this.store.getUserDiscordIds(userId);
+    }
+
+    public async getDiscordIdPreferences(userId: string): Promise<Map<string, string>> {
+        return this.store.getDiscordIdPreferences(userId);
+    }
+
+    /**
+     * Gets the client to act as a user with. If a guild is given, the account the user
+     * prefers in that guild is used instead of their default account.
+     */
+    public async getClient(userId: string | null = null, guildId?: string): Promise<DiscordClient> {
         if (userId === null) {
             return this.botClient;
         }
 
+        if (guildId) {
+            const guildDiscordId = await this.store.getPreferredDiscordId(userId, guildId);
+            if (guildDiscordId && (await this.store.getUserDiscordIds(userId)).includes(guildDiscordId) &&
+                guildDiscordId !== await this.getDefaultDiscordId(userId)) {
+                return this.getAccountClient(userId, guildDiscordId);
+            }
+        }
+
         if (this.clients.has(userId)) {
             log.verbose("Returning cached user client for", userId);
             return this.clients.get(userId) as DiscordClient;
         }
 
-        const discordIds = await this.store.getUserDiscordIds(userId);
-        if (discordIds.length === 0) {
+        const discordId = await this.getDefaultDiscordId(userId);
+        if (discordId === null) {
+            return this.botClient;
+        }
+        const client = await this.loginClient(userId, discordId);
+        if (!client) {
+            return this.botClient;
+        }
+        this.clients.set(userId, client);
+        this.updatePuppetCount();
+        return client;
+    }
+
+    /**
+     * Gets the client of one specific linked account of a user, whatever their preferences are.
+     */
+    public async getClientForAccount(userId: string, discordId: string): Promise<DiscordClient> {
+        if (discordId === await this.getDefaultDiscordId(userId)) {
+            return this.getClient(userId);
+        }
+        if (!(await this.store.getUserDiscordIds(userId)).includes(discordId)) {
+            return this.botClient;
+        }
+        return this.getAccountClient(userId, discordId);
+    }
+
+    /**
+     * Logs in every linked account of every user, so their direct messages are received.
+     */
+    public async loginAllPuppets(): Promise<void> {
+        for (const userId of await this.store.getPuppetedUserIds()) {
+            for (const discordId of await this.store.getUserDiscordIds(userId)) {
+                await this.getClientForAccount(userId, discordId);
+            }
+        }
+    }
+
+    public async removeClient(userId: string): Promise<void> {
+        const clients = Array.from((this.accountClients.get(userId) || new Map<string, DiscordClient>()).values());
+        if (this.clients.has(userId)) {
+            clients.push(this.clients.get(userId)!);
+        }
+        this.clients.delete(userId);
+        this.accountClients.delete(userId);
+        this.updatePuppetCount();
+        for (const client of clients) {
+            try {
+                await client.destroy();
+            } catch (err) {
+                log.warn(`Failed to destroy a client of ${userId}`, err);
+            }
+        }
+    }
+
+    public bindMetricsToChannel(channel: TextChannel) {
+        // tslint:disable-next-line:no-any
+        const flexChan = channel as any;
+        if (flexChan._xmet_send !== undefined) {
+            return;
+        }
+        // Prefix the real functions with _xmet_
+        flexChan._xmet_send = channel.send;
+        // tslint:disable-next-line:only-arrow-functions
+        channel.send = function() {
+            MetricPeg.get.remoteCall("channel.send");
+            return flexChan._xmet_send.apply(channel, arguments);
+        };
+    }
+
+    private async getAccountClient(userId: string, discordId: string): Promise<DiscordClient> {
+        let clients = this.accountClients.get(userId);
+        if (!clients) {
+            clients = new Map();
+            this.accountClients.set(userId, clients);
+        }
+        if (clients.has(discordId)) {
+            log.verbose(`Returning cached client of ${discordId} for`, userId);
+            return clients.get(discordId)!;
+        }
+        const client = await this.loginClient(userId, discordId);
+        if (!client) {
             return this.botClient;
         }
-        // TODO: Select a profile based on preference, not the first one.
-        const token = await this.store.getToken(discordIds[0]);
+        clients.set(discordId, client);
+        this.updatePuppetCount();
+        return client;
+    }
+
+    private async loginClient(userId: string, discordId: string): Promise<DiscordClient|null> {
+        if (await this.store.isTokenInvalidated(discordId)) {
+            log.verbose(`The token of ${discordId} is invalidated. Returning bot user for ${userId}.`);
+            return null;
+        }
         const client = new DiscordClient({
             fetchAllMembers: true,
             messageCacheLifetime: 5,
@@ -97,30 +294,65 @@ export class DiscordClientFactory {
         client.on("debug", (msg) => { jsLog.verbose(msg); });
         client.on("error", (msg) => { jsLog.error(msg); });
         client.on("warn", (msg) => { jsLog.warn(msg); });
+        // discord.js won't reconnect after this, so the client is of no use anymore.
+        client.on("disconnect", async (event) => {
+            log.info(`Client of ${discordId} for ${userId} disconnected with code ${event.code}`);
+            this.evictClient(userId, client);
+            if (event.code === INVALID_TOKEN_CLOSE_CODE) {
+                await this.invalidateToken(userId, discordId);
+            }
+        });
 
         try {
+            // Decrypting can fail too, if the token was encrypted with a key that is no longer configured.
+            const token = await this.store.getToken(discordId);
             await client.login(token);
-            log.verbose("Logged in. Storing ", userId);
-            this.clients.set(userId, client);
+            log.verbose(`Logged in as ${discordId}. Storing `, userId);
+            if (this.onPuppetLoggedIn) {
+                this.onPuppetLoggedIn(userId, discordId, client);
+            }
             return client;
         } catch (err) {
             log.warn(`Could not log ${userId} in. Returning bot user for now.`, err);
-            return this.botClient;
+            if (err && INVALID_TOKEN_ERRORS.includes(err.message)) {
+                await this.invalidateToken(userId, discordId);
+            }
+            return null;
         }
     }
 
-    public bindMetricsToChannel(channel: TextChannel) {
-        // tslint:disable-next-line:no-any
-        const flexChan = channel as any;
-        if (flexChan._xmet_send !== undefined) {
-            return;
+    private evictClient(userId: string, client: DiscordClient) {
+        if (this.clients.get(userId) === client) {
+            this.clients.delete(userId);
         }
-        // Prefix the real functions with _xmet_
-        flexChan._xmet_send = channel.send;
-        // tslint:disable-next-line:only-arrow-functions
-        channel.send = function() {
-            MetricPeg.get.remoteCall("channel.send");
-            return flexChan._xmet_send.apply(channel, arguments);
-        };
+        const clients = this.accountClients.get(userId);
+        if (clients) {
+            for (const [discordId, accountClient] of clients) {
+                if (accountClient === client) {
+                    clients.delete(discordId);
+                }
+            }
+        }
+        this.updatePuppetCount();
+    }
+
+    private async invalidateToken(userId: string, discordId: string): Promise<void> {
+        log.warn(`The token of ${discordId} for ${userId} no longer works`);
+        try {
+            await this.store.markTokenInvalidated(discordId);
+            if (this.onTokenInvalidated) {
+                await this.onTokenInvalidated(userId, discordId);
+            }
+        } catch (err) {
+            log.error(`Failed to handle the invalidated token of ${discordId}`, err);
+        }
+    }
+
+    private updatePuppetCount() {
+        let count = this.clients.size;
+        for (const clients of this.accountClients.values()) {
+            count += clients.size;
+        }
+        MetricPeg.get.setPuppetCount(count);
     }
 }
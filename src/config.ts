@@ -28,6 +28,7 @@ export class DiscordBridgeConfig {
     public channel: DiscordBridgeConfigChannel = new DiscordBridgeConfigChannel();
     public limits: DiscordBridgeConfigLimits = new DiscordBridgeConfigLimits();
     public ghosts: DiscordBridgeConfigGhosts = new DiscordBridgeConfigGhosts();
+    public provisioning: DiscordBridgeConfigProvisioning = new DiscordBridgeConfigProvisioning();
 
     /**
      * Apply a set of keys and values over the default config.
@@ -91,6 +92,7 @@ class DiscordBridgeConfigBridge {
     public disableHereMention: boolean = false;
     public disableJoinLeaveNotifications: boolean = false;
     public enableMetrics: boolean = false;
+    public enableGuildSpaces: boolean = false;
 }
 
 export class DiscordBridgeConfigDatabase {
@@ -98,6 +100,9 @@ export class DiscordBridgeConfigDatabase {
     public filename: string;
     public userStorePath: string;
     public roomStorePath: string;
+    public tokenKeyId: string = "1";
+    public tokenKey: string = "";
+    public previousTokenKeys: string[] = [];
 }
 
 export class DiscordBridgeConfigAuth {
@@ -134,6 +139,8 @@ export class DiscordBridgeConfigChannelDeleteOptions {
 class DiscordBridgeConfigLimits {
     public roomGhostJoinDelay: number = 6000;
     public discordSendDelay: number = 750;
+    public joinLeaveGroupDelay: number = 5000;
+    public maxMessageSplits: number = 0;
 }
 
 export class LoggingFile {
@@ -150,3 +157,8 @@ class DiscordBridgeConfigGhosts {
     public nickPattern: string = ":nick";
     public usernamePattern: string = ":username#:tag";
 }
+
+export class DiscordBridgeConfigProvisioning {
+    public enabled: boolean = false;
+    public sharedSecret: string = "";
+}
@@ -0,0 +1,92 @@
+/*
+Copyright 2019 matrix-appservice-discord
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { DiscordStore } from "../store";
+import { IDbData } from "./dbdatainterface";
+import { ISqlCommandParameters } from "./connector";
+
+/**
+ * A Matrix room mirroring a Discord DM or group DM of a puppeted user.
+ * Every puppeted account gets its own room for a DM channel.
+ */
+export class DbDmRoom implements IDbData {
+    public RoomId: string;
+    public UserId: string;
+    public DiscordId: string;
+    public ChannelId: string;
+    public Result: boolean;
+
+    public async RunQuery(store: DiscordStore, params: ISqlCommandParameters): Promise<void> {
+        let row;
+        if (params.room_id) {
+            row = await store.db.Get(`
+                SELECT *
+                FROM dm_rooms
+                WHERE room_id = $room_id`, {
+                    room_id: params.room_id,
+                });
+        } else if (params.discord_id && params.channel_id) {
+            row = await store.db.Get(`
+                SELECT *
+                FROM dm_rooms
+                WHERE discord_id = $discord_id AND channel_id = $channel_id`, {
+                    channel_id: params.channel_id,
+                    discord_id: params.discord_id,
+                });
+        } else {
+            throw new Error("Unknown/incorrect id given as a param");
+        }
+        this.Result = Boolean(row); // check if row exists
+        if (this.Result && row) {
+            this.RoomId = row.room_id as string;
+            this.UserId = row.user_id as string;
+            this.DiscordId = row.discord_id as string;
+            this.ChannelId = row.channel_id as string;
+        }
+    }
+
+    public async Insert(store: DiscordStore): Promise<void> {
+        await store.db.Run(`
+            INSERT INTO dm_rooms
+            (discord_id,channel_id,room_id,user_id)
+            VALUES ($discord_id,$channel_id,$room_id,$user_id);`, {
+                channel_id: this.ChannelId,
+                discord_id: this.DiscordId,
+                room_id: this.RoomId,
+                user_id: this.UserId,
+        });
+    }
+
+    public async Update(store: DiscordStore): Promise<void> {
+        await store.db.Run(`
+            UPDATE dm_rooms
+            SET room_id = $room_id
+            WHERE
+            discord_id = $discord_id AND channel_id = $channel_id`, {
+                channel_id: this.ChannelId,
+                discord_id: this.DiscordId,
+                room_id: this.RoomId,
+        });
+    }
+
+    public async Delete(store: DiscordStore): Promise<void> {
+        await store.db.Run(`
+            DELETE FROM dm_rooms
+            WHERE room_id = $room_id`, {
+                room_id: this.RoomId,
+        });
+    }
+}
@@ -0,0 +1,77 @@
+/*
+Copyright 2019 matrix-appservice-discord
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { DiscordStore } from "../store";
+import { IDbData } from "./dbdatainterface";
+import { ISqlCommandParameters } from "./connector";
+
+/**
+ * Remembers where a Matrix sticker was uploaded to on Discord, so it can be linked instead of uploaded again.
+ */
+export class DbMatrixSticker implements IDbData {
+    public MxcUrl: string;
+    public DiscordUrl: string;
+    public CreatedAt: number;
+    public Result: boolean;
+
+    public async RunQuery(store: DiscordStore, params: ISqlCommandParameters): Promise<void> {
+        const row = await store.db.Get(`
+            SELECT *
+            FROM matrix_sticker
+            WHERE mxc_url = $mxc`, {
+                mxc: params.mxc_url,
+            });
+        this.Result = Boolean(row); // check if row exists
+        if (this.Result && row) {
+            this.MxcUrl = row.mxc_url as string;
+            this.DiscordUrl = row.discord_url as string;
+            this.CreatedAt = row.created_at as number;
+        }
+    }
+
+    public async Insert(store: DiscordStore): Promise<void> {
+        this.CreatedAt = new Date().getTime();
+        await store.db.Run(`
+            INSERT INTO matrix_sticker
+            (mxc_url,discord_url,created_at)
+            VALUES ($mxc_url,$discord_url,$created_at);`, {
+                created_at: this.CreatedAt,
+                discord_url: this.DiscordUrl,
+                mxc_url: this.MxcUrl,
+        });
+    }
+
+    public async Update(store: DiscordStore): Promise<void> {
+        this.CreatedAt = new Date().getTime();
+        await store.db.Run(`
+            UPDATE matrix_sticker
+            SET discord_url = $discord_url, created_at = $created_at
+            WHERE
+            mxc_url = $mxc_url`, {
+                created_at: this.CreatedAt,
+                discord_url: this.DiscordUrl,
+                mxc_url: this.MxcUrl,
+        });
+    }
+
+    public async Delete(store: DiscordStore): Promise<void> {
+        await store.db.Run(`
+            DELETE FROM matrix_sticker
+            WHERE mxc_url = $mxc_url`, {
+                mxc_url: this.MxcUrl,
+        });
+    }
+}
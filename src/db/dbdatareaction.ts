@@ -0,0 +1,99 @@
+/*
+Copyright 2019 matrix-appservice-discord
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { DiscordStore } from "../store";
+import { IDbDataMany } from "./dbdatainterface";
+import { ISqlCommandParameters } from "./connector";
+
+/**
+ * Maps Matrix m.reaction events to reactions on a Discord message.
+ * Emoji is either a unicode emoji or the ID of a custom emoji.
+ */
+export class DbReaction implements IDbDataMany {
+    public MatrixId: string;
+    public DiscordMsgId: string;
+    public DiscordUserId: string;
+    public Emoji: string;
+    public Result: boolean;
+    // tslint:disable-next-line no-any
+    private rows: any[];
+
+    get ResultCount(): number {
+        return this.rows.length;
+    }
+
+    public async RunQuery(store: DiscordStore, params: ISqlCommandParameters): Promise<void> {
+        this.rows = [];
+        if (params.matrix_id) {
+            this.rows = await store.db.All(`
+                SELECT *
+                FROM reaction_store
+                WHERE matrix_id = $id`, {
+                    id: params.matrix_id,
+            });
+        } else if (params.discord_msg_id && params.discord_user_id && params.emoji) {
+            this.rows = await store.db.All(`
+                SELECT *
+                FROM reaction_store
+                WHERE discord_msg_id = $msg_id
+                AND discord_user_id = $user_id
+                AND emoji = $emoji`, {
+                    emoji: params.emoji,
+                    msg_id: params.discord_msg_id,
+                    user_id: params.discord_user_id,
+            });
+        } else {
+            throw new Error("Unknown/incorrect id given as a param");
+        }
+        this.Result = this.rows.length !== 0;
+    }
+
+    public Next(): boolean {
+        if (!this.Result || this.ResultCount === 0) {
+            return false;
+        }
+        const item = this.rows.shift();
+        this.MatrixId = item.matrix_id;
+        this.DiscordMsgId = item.discord_msg_id;
+        this.DiscordUserId = item.discord_user_id;
+        this.Emoji = item.emoji;
+        return true;
+    }
+
+    public async Insert(store: DiscordStore): Promise<void> {
+        await store.db.Run(`
+            INSERT INTO reaction_store
+            (matrix_id,discord_msg_id,discord_user_id,emoji)
+            VALUES ($matrix_id,$discord_msg_id,$discord_user_id,$emoji);`, {
+                discord_msg_id: this.DiscordMsgId,
+                discord_user_id: this.DiscordUserId,
+                emoji: this.Emoji,
+                matrix_id: this.MatrixId,
+        });
+    }
+
+    public async Update(store: DiscordStore): Promise<void> {
+        throw new Error("Update is not implemented");
+    }
+
+    public async Delete(store: DiscordStore): Promise<void> {
+        await store.db.Run(`
+            DELETE FROM reaction_store
+            WHERE matrix_id = $matrix_id;`, {
+                matrix_id: this.MatrixId,
+        });
+    }
+}
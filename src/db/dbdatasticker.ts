@@ -0,0 +1,96 @@
+/*
+Copyright 2019 matrix-appservice-discord
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { DiscordStore } from "../store";
+import { IDbData } from "./dbdatainterface";
+import { ISqlCommandParameters } from "./connector";
+
+export class DbSticker implements IDbData {
+    public StickerId: string;
+    public Name: string;
+    public FormatType: number;
+    public MxcUrl: string;
+    public MimeType: string;
+    public Size: number;
+    public CreatedAt: number;
+    public UpdatedAt: number;
+    public Result: boolean;
+
+    public async RunQuery(store: DiscordStore, params: ISqlCommandParameters): Promise<void> {
+        const row = await store.db.Get(`
+            SELECT *
+            FROM sticker
+            WHERE sticker_id = $id`, {
+                id: params.sticker_id,
+            });
+        this.Result = Boolean(row); // check if row exists
+        if (this.Result && row) {
+            this.StickerId = row.sticker_id as string;
+            this.Name = row.name as string;
+            this.FormatType = Number(row.format_type);
+            this.MxcUrl = row.mxc_url as string;
+            this.MimeType = row.mimetype as string;
+            this.Size = Number(row.size);
+            this.CreatedAt = row.created_at as number;
+            this.UpdatedAt = row.updated_at as number;
+        }
+    }
+
+    public async Insert(store: DiscordStore): Promise<void> {
+        this.CreatedAt = new Date().getTime();
+        this.UpdatedAt = this.CreatedAt;
+        await store.db.Run(`
+            INSERT INTO sticker
+            (sticker_id,name,format_type,mxc_url,mimetype,size,created_at,updated_at)
+            VALUES ($sticker_id,$name,$format_type,$mxc_url,$mimetype,$size,$created_at,$updated_at);`, {
+                created_at: this.CreatedAt,
+                format_type: this.FormatType,
+                mimetype: this.MimeType,
+                mxc_url: this.MxcUrl,
+                name: this.Name,
+                size: this.Size,
+                sticker_id: this.StickerId,
+                updated_at: this.UpdatedAt,
+        });
+    }
+
+    public async Update(store: DiscordStore): Promise<void> {
+        // Ensure this has incremented by 1 for Insert+Update operations.
+        this.UpdatedAt = new Date().getTime() + 1;
+        await store.db.Run(`
+            UPDATE sticker
+            SET name = $name,
+            format_type = $format_type,
+            mxc_url = $mxc_url,
+            mimetype = $mimetype,
+            size = $size,
+            updated_at = $updated_at
+            WHERE
+            sticker_id = $sticker_id`, {
+                format_type: this.FormatType,
+                mimetype: this.MimeType,
+                mxc_url: this.MxcUrl,
+                name: this.Name,
+                size: this.Size,
+                sticker_id: this.StickerId,
+                updated_at: this.UpdatedAt,
+        });
+    }
+
+    public async Delete(store: DiscordStore): Promise<void> {
+        throw new Error("Delete is not implemented");
+    }
+}
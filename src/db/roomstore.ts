@@ -45,6 +45,9 @@ interface IRemoteRoomDataLazy  {
     update_name?: number|boolean|null;
     update_topic?: number|boolean|null;
     update_icon?: number|boolean|null;
+    update_discord_name?: number|boolean|null;
+    update_discord_topic?: number|boolean|null;
+    mute_join_leave?: number|boolean|null;
     plumbed?: number|boolean|null;
 }
 
@@ -55,7 +58,8 @@ export class RemoteStoreRoom {
         "discord_topic", "discord_iconurl", "discord_iconurl_mxc", "discord_type"]) {
             data[k] = typeof(data[k]) === "number" ? String(data[k]) : data[k] || null;
         }
-        for (const k of ["update_name", "update_topic", "update_icon", "plumbed"]) {
+        for (const k of ["update_name", "update_topic", "update_icon", "update_discord_name",
+        "update_discord_topic", "mute_join_leave", "plumbed"]) {
             data[k] = Number(data[k]) || 0;
         }
         this.data = data;
@@ -305,41 +309,37 @@ export class DbRoomStore {
         );
 
         const data = {
-            discord_channel:     room.data.discord_channel,
-            discord_guild:       room.data.discord_guild,
-            discord_iconurl:     room.data.discord_iconurl,
-            discord_iconurl_mxc: room.data.discord_iconurl_mxc,
-            discord_name:        room.data.discord_name,
-            discord_topic:       room.data.discord_topic,
-            discord_type:        room.data.discord_type,
-            plumbed:             Number(room.data.plumbed || 0),
-            update_icon:         Number(room.data.update_icon || 0),
-            update_name:         Number(room.data.update_name || 0),
-            update_topic:        Number(room.data.update_topic || 0),
+            discord_channel:      room.data.discord_channel,
+            discord_guild:        room.data.discord_guild,
+            discord_iconurl:      room.data.discord_iconurl,
+            discord_iconurl_mxc:  room.data.discord_iconurl_mxc,
+            discord_name:         room.data.discord_name,
+            discord_topic:        room.data.discord_topic,
+            discord_type:         room.data.discord_type,
+            mute_join_leave:      Number(room.data.mute_join_leave || 0),
+            plumbed:              Number(room.data.plumbed || 0),
+            update_discord_name:  Number(room.data.update_discord_name || 0),
+            update_discord_topic: Number(room.data.update_discord_topic || 0),
+            update_icon:          Number(room.data.update_icon || 0),
+            update_name:          Number(room.data.update_name || 0),
+            update_topic:         Number(room.data.update_topic || 0),
         } as IRemoteRoomData;
 
         if (!existingRow) {
-            // Insert new data.
+            // Insert new data. Columns added by later schemas are only named when set, as the
+            // v8 migration inserts rooms before they exist and their defaults match anyway.
+            const columns = [
+                "discord_guild", "discord_channel", "discord_name", "discord_topic", "discord_type",
+                "discord_iconurl", "discord_iconurl_mxc", "update_name", "update_topic", "update_icon", "plumbed",
+            ].concat(
+                ["update_discord_name", "update_discord_topic", "mute_join_leave"].filter((c) => data[c]),
+            );
             await this.db.Run(
-            `INSERT INTO remote_room_data VALUES (
-                $id,
-                $discord_guild,
-                $discord_channel,
-                $discord_name,
-                $discord_topic,
-                $discord_type,
-                $discord_iconurl,
-                $discord_iconurl_mxc,
-                $update_name,
-                $update_topic,
-                $update_icon,
-                $plumbed
-            )
-            `,
+            `INSERT INTO remote_room_data (room_id, ${columns.join(", ")})
+             VALUES ($id, ${columns.map((c) => `$${c}`).join(", ")})`,
             {
                 id: room.roomId,
-                // tslint:disable-next-line no-any
-                ...data as any,
+                ...columns.reduce((params, c) => ({...params, [c]: data[c]}), {}),
             });
             return;
         }
@@ -0,0 +1,38 @@
+/*
+Copyright 2019 matrix-appservice-discord
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import {IDbSchema} from "./dbschema";
+import {DiscordStore} from "../../store";
+import { Log } from "../../log";
+
+const log = new Log("SchemaV17");
+
+export class Schema implements IDbSchema {
+    public description = "encrypt stored tokens";
+
+    public async run(store: DiscordStore): Promise<void> {
+        // We deliberately don't take a backup here, as it would contain the tokens in plain text.
+        const count = await store.reencryptTokens();
+        if (count > 0) {
+            log.warn(`Encrypted ${count} stored token(s). Older backups of the database still contain them ` +
+                "in plain text and should be removed.");
+        }
+    }
+
+    public async rollBack(store: DiscordStore): Promise<void> {
+        // Tokens encrypted so far stay readable with the configured keys, so there is nothing to undo.
+    }
+}
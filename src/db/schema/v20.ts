@@ -0,0 +1,40 @@
+/*
+Copyright 2019 matrix-appservice-discord
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import {IDbSchema} from "./dbschema";
+import {DiscordStore} from "../../store";
+
+export class Schema implements IDbSchema {
+    public description = "create bridge_requests table";
+
+    public async run(store: DiscordStore): Promise<void> {
+        await store.createTable(`
+            CREATE TABLE bridge_requests (
+                guild_id TEXT NOT NULL,
+                channel_id TEXT NOT NULL,
+                room_id TEXT NOT NULL,
+                requestor TEXT NOT NULL,
+                expires_at BIGINT NOT NULL,
+                PRIMARY KEY(guild_id, channel_id)
+        );`, "bridge_requests");
+    }
+
+    public async rollBack(store: DiscordStore): Promise<void> {
+        await store.db.Run(
+            `DROP TABLE IF EXISTS bridge_requests;`,
+        );
+    }
+}
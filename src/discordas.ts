@@ -23,6 +23,7 @@ import { DiscordStore } from "./store";
 import { Log } from "./log";
 import "source-map-support/register";
 import { MetricPeg, PrometheusBridgeMetrics } from "./metrics";
+import { ProvisioningApi } from "./provisioningapi";
 
 const log = new Log("DiscordAS");
 
@@ -203,6 +204,9 @@ async function run(port: number, fileConfig: DiscordBridgeConfig) {
         log.info("Initing bot.");
         await discordbot.run();
         log.info("Discordbot started successfully");
+        if (config.provisioning.enabled) {
+            new ProvisioningApi(config.provisioning, bridge, discordbot, store.roomStore, store).Register();
+        }
     } catch (err) {
         log.error(err);
         log.error("Failure during startup. Exiting");
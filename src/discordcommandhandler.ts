@@ -76,6 +76,20 @@ export class DiscordCommandHandler {
                 permission: "KICK_MEMBERS",
                 run: this.ModerationActionGenerator(chan, "kick"),
             },
+            space: {
+                description: "Bridges this guild as a Matrix space",
+                params: [],
+                permission: "MANAGE_GUILD",
+                run: async () => {
+                    const spaceSync = this.discord.SpaceSyncroniser;
+                    if (!spaceSync.IsEnabled) {
+                        return "Bridging guilds as Matrix spaces is disabled on this bridge.";
+                    }
+                    await spaceSync.BridgeGuild(chan.guild);
+                    return `This guild is now bridged as the Matrix space ${spaceSync.GetSpaceAlias(chan.guild.id)}. ` +
+                        "New channels are added to it automatically.";
+                },
+            },
             unban: {
                 description: "Unbans a user on the matrix side",
                 params: ["name"],
@@ -20,6 +20,7 @@ import { DiscordBot } from "./bot";
 import * as escapeHtml from "escape-html";
 import { Util } from "./util";
 import { Bridge } from "matrix-appservice-bridge";
+import { IMatrixEvent } from "./matrixtypes";
 
 import { Log } from "./log";
 const log = new Log("DiscordMessageProcessor");
@@ -33,6 +34,12 @@ const ANIMATED_MXC_INSERT_REGEX_GROUP = 2;
 const ID_MXC_INSERT_REGEX_GROUP = 3;
 const EMOJI_SIZE = 32;
 const MAX_EDIT_MSG_LENGTH = 50;
+const EMBED_IMAGE_WIDTH = 400;
+const EMBED_IMAGE_HEIGHT = 300;
+const EMBED_THUMBNAIL_SIZE = 80;
+const EMBED_FOOTER_SEPARATOR = " • ";
+// Matches spoilers, but skips over code so spoiler markup inside of it is kept.
+const SPOILER_REGEX = /(```[\s\S]*?```|`[^`]*`)|\|\|([\s\S]+?)\|\|/g;
 
 // same as above, no global flag here, too
 const CHANNEL_INSERT_REGEX = /\x01chan\x01([0-9]*)\x01/;
@@ -92,9 +99,13 @@ export class DiscordMessageProcessor {
         content = await this.InsertChannelPills(content, msg);
 
         // parse postmark stuff
-        contentPostmark = this.InsertEmbedsPostmark(contentPostmark, msg);
+        contentPostmark = await this.InsertEmbedsPostmark(contentPostmark, msg);
         contentPostmark = await this.InsertMxcImages(contentPostmark, msg, true);
         contentPostmark = await this.InsertChannelPills(contentPostmark, msg, true);
+        contentPostmark = contentPostmark.replace(/<span class="d-spoiler">/g, "<span data-mx-spoiler>");
+
+        // Don't give spoilers away to clients that can only show the plain body.
+        content = content.replace(SPOILER_REGEX, (match, code) => code ? code : "[Spoiler]");
 
         result.body = content;
         result.formattedBody = contentPostmark;
@@ -127,16 +138,79 @@ export class DiscordMessageProcessor {
         return result;
     }
 
+    /**
+     * Prepends the standard Matrix reply fallback of the replied-to event.
+     * See https://matrix.org/docs/spec/client_server/r0.5.0#rich-replies
+     */
+    public FormatMatrixReply(
+        result: DiscordMessageProcessorResult,
+        replyEvent: IMatrixEvent,
+    ): DiscordMessageProcessorResult {
+        const content = replyEvent.content || {};
+        // Strip any fallback the replied-to event carries itself.
+        const lines = (content.body || "").split("\n");
+        while (lines.length > 1 && lines[0].startsWith("> ")) {
+            lines.shift();
+        }
+        if (lines.length > 1 && lines[0] === "") {
+            lines.shift();
+        }
+        let formattedOriginal = content.formatted_body ?
+            content.formatted_body.replace(/^[\s\S]*<\/mx-reply>/, "") :
+            escapeHtml(lines.join("\n")).replace(/\n/g, "<br>");
+        if (!formattedOriginal && content.url) {
+            formattedOriginal = escapeHtml(content.body || "sent a file.");
+        }
+        const sender = replyEvent.sender;
+        const quote = lines.map((line, i) => i === 0 ? `> <${sender}> ${line}` : `> ${line}`).join("\n");
+        const eventLink = `${MATRIX_TO_LINK}${escapeHtml(replyEvent.room_id)}/${escapeHtml(replyEvent.event_id)}`;
+
+        const reply = new DiscordMessageProcessorResult();
+        reply.msgtype = result.msgtype;
+        reply.body = `${quote}\n\n${result.body}`;
+        reply.formattedBody = `<mx-reply><blockquote><a href="${eventLink}">In reply to</a> ` +
+            `<a href="${MATRIX_TO_LINK}${escapeHtml(sender)}">${escapeHtml(sender)}</a><br>` +
+            `${formattedOriginal}</blockquote></mx-reply>${result.formattedBody}`;
+        return reply;
+    }
+
+    /**
+     * Quotes the replied-to Discord message, used when it was never bridged to the room.
+     */
+    public async FormatQuoteReply(
+        result: DiscordMessageProcessorResult,
+        repliedMsg: Discord.Message|null,
+    ): Promise<DiscordMessageProcessorResult> {
+        const reply = new DiscordMessageProcessorResult();
+        reply.msgtype = result.msgtype;
+        if (!repliedMsg) {
+            reply.body = `> In reply to an unknown message\n\n${result.body}`;
+            reply.formattedBody = `<blockquote>In reply to an unknown message</blockquote>${result.formattedBody}`;
+            return reply;
+        }
+        const quoted = await this.FormatMessage(repliedMsg);
+        const author = repliedMsg.member ? repliedMsg.member.displayName : repliedMsg.author.username;
+        const quote = quoted.body.split("\n").map((line, i) => i === 0 ? `> <${author}> ${line}` : `> ${line}`);
+        reply.body = `${quote.join("\n")}\n\n${result.body}`;
+        reply.formattedBody = `<blockquote>In reply to ${escapeHtml(author)}<br>${quoted.formattedBody}</blockquote>` +
+            result.formattedBody;
+        return reply;
+    }
+
     public InsertEmbeds(content: string, msg: Discord.Message): string {
         for (const embed of msg.embeds) {
-            if (embed.title === undefined && embed.description === undefined) {
+            if (!this.hasEmbedContent(embed)) {
                 continue;
             }
             if (this.isEmbedInBody(msg, embed)) {
                 continue;
             }
             let embedContent = "\n\n----"; // Horizontal rule. Two to make sure the content doesn't become a title.
-            const embedTitle = embed.url ? `[${embed.title}](${embed.url})` : embed.title;
+            if (embed.author && embed.author.name) {
+                embedContent += "\n" + (embed.author.url ?
+                    `[${embed.author.name}](${embed.author.url})` : embed.author.name);
+            }
+            const embedTitle = embed.title && embed.url ? `[${embed.title}](${embed.url})` : embed.title;
             if (embedTitle) {
                 embedContent += "\n##### " + embedTitle; // h5 is probably best.
             }
@@ -157,71 +231,108 @@ export class DiscordMessageProcessor {
                     });
                 }
             }
-            if (embed.image) {
+            if (embed.image && embed.image.url) {
                 embedContent += "\nImage: " + embed.image.url;
             }
-            if (embed.footer) {
-                embedContent += "\n" + markdown.toHTML(embed.footer.text, {
+            if (embed.thumbnail && embed.thumbnail.url) {
+                embedContent += "\nThumbnail: " + embed.thumbnail.url;
+            }
+            const footer: string[] = [];
+            if (embed.footer && embed.footer.text) {
+                footer.push(markdown.toHTML(embed.footer.text, {
                     discordCallback: this.getDiscordParseCallbacks(msg),
                     discordOnly: true,
                     escapeHTML: false,
-                });
+                }));
+            }
+            const timestamp = this.getEmbedTimestamp(embed);
+            if (timestamp) {
+                footer.push(timestamp);
+            }
+            if (footer.length) {
+                embedContent += "\n" + footer.join(EMBED_FOOTER_SEPARATOR);
             }
             content += embedContent;
         }
         return content;
     }
 
-    public InsertEmbedsPostmark(content: string, msg: Discord.Message): string {
+    public async InsertEmbedsPostmark(content: string, msg: Discord.Message): Promise<string> {
         for (const embed of msg.embeds) {
-            if (embed.title === undefined && embed.description === undefined) {
+            if (!this.hasEmbedContent(embed)) {
                 continue;
             }
             if (this.isEmbedInBody(msg, embed)) {
                 continue;
             }
-            let embedContent = "<hr>"; // Horizontal rule. Two to make sure the content doesn't become a title.
-            const embedTitle = embed.url ?
-                `<a href="${escapeHtml(embed.url)}">${escapeHtml(embed.title)}</a>`
-                : (embed.title ? escapeHtml(embed.title) : undefined);
+            // Matrix HTML can't style borders, so a coloured embed is put in a blockquote
+            // and its first line starts with a bar in the embed's colour.
+            const hasColor = typeof embed.color === "number" && embed.color > 0;
+            let colorBar = hasColor ? `<font data-mx-color="${Util.NumberToHTMLColor(embed.color)}">▌</font> ` : "";
+            let embedContent = "";
+            const addBlock = (tag: string, html: string) => {
+                embedContent += `<${tag}>${colorBar}${html}</${tag}>`;
+                colorBar = "";
+            };
+            if (embed.author && embed.author.name) {
+                const authorName = escapeHtml(embed.author.name);
+                const author = embed.author.url ?
+                    `<a href="${escapeHtml(embed.author.url)}">${authorName}</a>` : authorName;
+                addBlock("p", `<strong>${author}</strong>`);
+            }
+            let embedTitle = embed.title ? escapeHtml(embed.title) : "";
+            if (embedTitle && embed.url) {
+                embedTitle = `<a href="${escapeHtml(embed.url)}">${embedTitle}</a>`;
+            }
             if (embedTitle) {
-                embedContent += `<h5>${embedTitle}</h5>`; // h5 is probably best.
+                addBlock("h5", embedTitle); // h5 is probably best.
             }
             if (embed.description) {
-                embedContent += "<p>";
-                embedContent += markdown.toHTML(embed.description, {
+                addBlock("p", markdown.toHTML(embed.description, {
                     discordCallback: this.getDiscordParseCallbacksHTML(msg),
                     embed: true,
-                }) + "</p>";
+                }));
             }
             if (embed.fields) {
                 for (const field of embed.fields) {
-                    embedContent += `<p><strong>${escapeHtml(field.name)}</strong><br>`;
-                    embedContent += markdown.toHTML(field.value, {
-                        discordCallback: this.getDiscordParseCallbacks(msg),
+                    addBlock("p", `<strong>${escapeHtml(field.name)}</strong><br>` + markdown.toHTML(field.value, {
+                        discordCallback: this.getDiscordParseCallbacksHTML(msg),
                         embed: true,
-                    }) + "</p>";
+                    }));
                 }
             }
-            if (embed.image) {
-                const imgUrl = escapeHtml(embed.image.url);
-                embedContent += `<p>Image: <a href="${imgUrl}">${imgUrl}</a></p>`;
+            if (embed.image && embed.image.url) {
+                addBlock("p", await this.getEmbedImageHtml(
+                    embed.image, "Image", EMBED_IMAGE_WIDTH, EMBED_IMAGE_HEIGHT,
+                ));
+            }
+            if (embed.thumbnail && embed.thumbnail.url) {
+                addBlock("p", await this.getEmbedImageHtml(
+                    embed.thumbnail, "Thumbnail", EMBED_THUMBNAIL_SIZE, EMBED_THUMBNAIL_SIZE,
+                ));
             }
-            if (embed.footer) {
-                embedContent += "<p>";
-                embedContent += markdown.toHTML(embed.footer.text, {
+            const footer: string[] = [];
+            if (embed.footer && embed.footer.text) {
+                footer.push(markdown.toHTML(embed.footer.text, {
                     discordCallback: this.getDiscordParseCallbacksHTML(msg),
                     embed: true,
-                }) + "</p>";
+                }));
             }
-            content += embedContent;
+            const timestamp = this.getEmbedTimestamp(embed);
+            if (timestamp) {
+                footer.push(escapeHtml(timestamp));
+            }
+            if (footer.length) {
+                addBlock("p", footer.join(EMBED_FOOTER_SEPARATOR));
+            }
+            content += hasColor ? `<hr><blockquote>${embedContent}</blockquote>` : `<hr>${embedContent}`;
         }
         return content;
     }
 
     public InsertUser(node: IDiscordNode, msg: Discord.Message, html: boolean = false): string {
         const id = node.id;
-        const member = msg.guild.members.get(id);
+        const member = msg.guild ? msg.guild.members.get(id) : undefined;
         const memberId = `@_discord_${id}:${this.opts.domain}`;
         const memberName = member ? member.displayName : memberId;
         if (!html) {
@@ -239,7 +350,7 @@ export class DiscordMessageProcessor {
 
     public InsertRole(node: IDiscordNode, msg: Discord.Message, html: boolean = false): string {
         const id = node.id;
-        const role = msg.guild.roles.get(id);
+        const role = msg.guild ? msg.guild.roles.get(id) : undefined;
         if (!role) {
             return html ? `&lt;@&amp;${id}&gt;` : `<@&${id}>`;
         }
@@ -279,7 +390,7 @@ export class DiscordMessageProcessor {
                 }
             } catch (ex) {
                 log.warn(
-                    `Could not insert emoji ${id} for msg ${msg.id} in guild ${msg.guild.id}: ${ex}`,
+                    `Could not insert emoji ${id} for msg ${msg.id} in channel ${msg.channel.id}: ${ex}`,
                 );
                 if (html) {
                     replace = `&lt;${animated ? "a" : ""}:${nameHtml}:${id}&gt;`;
@@ -298,7 +409,7 @@ export class DiscordMessageProcessor {
         while (results !== null) {
             const id = results[ID_CHANNEL_INSERT_REGEX];
             let replace = "";
-            const channel = msg.guild.channels.get(id);
+            const channel = msg.guild ? msg.guild.channels.get(id) : undefined;
             if (channel) {
                 const alias = await this.opts.bot!.ChannelSyncroniser.GetAliasFromChannel(channel);
                 if (alias) {
@@ -315,6 +426,42 @@ export class DiscordMessageProcessor {
         return content;
     }
 
+    private hasEmbedContent(embed: Discord.MessageEmbed): boolean {
+        return Boolean(embed.title || embed.description || (embed.fields && embed.fields.length) ||
+            (embed.author && embed.author.name) || (embed.image && embed.image.url) ||
+            (embed.thumbnail && embed.thumbnail.url) || (embed.footer && embed.footer.text));
+    }
+
+    private getEmbedTimestamp(embed: Discord.MessageEmbed): string|null {
+        if (!embed.timestamp) {
+            return null;
+        }
+        const date = new Date(embed.timestamp);
+        return isNaN(date.getTime()) ? null : date.toUTCString();
+    }
+
+    private async getEmbedImageHtml(
+        image: Discord.MessageEmbedImage | Discord.MessageEmbedThumbnail,
+        alt: string,
+        maxWidth: number,
+        maxHeight: number,
+    ): Promise<string> {
+        try {
+            const mxcUrl = await this.opts.bot!.GetEmbedImage(image.proxyURL || image.url);
+            let size = "";
+            if (image.width && image.height) {
+                // Scale the image down to the size Discord would show it at.
+                const scale = Math.min(1, maxWidth / image.width, maxHeight / image.height);
+                size = ` width="${Math.round(image.width * scale)}" height="${Math.round(image.height * scale)}"`;
+            }
+            return `<img alt="${alt}" src="${escapeHtml(mxcUrl)}"${size} />`;
+        } catch (err) {
+            log.warn(`Could not upload embed image ${image.url}`, err);
+            const imgUrl = escapeHtml(image.url);
+            return `${alt}: <a href="${imgUrl}">${imgUrl}</a>`;
+        }
+    }
+
     private isEmbedInBody(msg: Discord.Message, embed: Discord.MessageEmbed): boolean {
         if (!embed.url) {
             return false;
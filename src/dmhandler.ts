@@ -0,0 +1,270 @@
+/*
+Copyright 2019 matrix-appservice-discord
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import * as Discord from "discord.js";
+import * as mime from "mime";
+import { Bridge, MatrixUser } from "matrix-appservice-bridge";
+import { DiscordBot } from "./bot";
+import { DiscordBridgeConfig } from "./config";
+import { DiscordStore } from "./store";
+import { DbDmRoom } from "./db/dbdatadmroom";
+import { DiscordMessageProcessor, DiscordMessageProcessorOpts } from "./discordmessageprocessor";
+import { MatrixMessageProcessor, IMatrixMessageProcessorParams } from "./matrixmessageprocessor";
+import { IMatrixEvent, IMatrixMessage } from "./matrixtypes";
+import { Util } from "./util";
+import { Log } from "./log";
+
+const log = new Log("DMHandler");
+
+const GHOST_REGEX = /^_discord_([0-9]+)$/;
+
+type DiscordDMChannel = Discord.DMChannel | Discord.GroupDMChannel;
+
+/**
+ * Mirrors the Discord DMs and group DMs of puppeted users into Matrix rooms.
+ * Each puppeted account gets its own room per DM channel, which only the user it belongs to can send to.
+ */
+export class DMHandler {
+    private discordMsgProcessor: DiscordMessageProcessor;
+    private matrixMsgProcessor: MatrixMessageProcessor;
+    // Discord messages we sent from Matrix, so they aren't mirrored back.
+    private sentMessages: Set<string> = new Set();
+
+    constructor(
+        config: DiscordBridgeConfig,
+        private bridge: Bridge,
+        private discord: DiscordBot,
+        private store: DiscordStore,
+    ) {
+        this.discordMsgProcessor = new DiscordMessageProcessor(
+            new DiscordMessageProcessorOpts(config.bridge.domain, discord),
+        );
+        this.matrixMsgProcessor = new MatrixMessageProcessor(discord);
+    }
+
+    /**
+     * Listens for the direct messages of a puppet client that just logged in.
+     */
+    public OnPuppetLoggedIn(userId: string, discordId: string, client: Discord.Client) {
+        client.on("message", async (msg: Discord.Message) => {
+            try {
+                await this.OnDiscordMessage(userId, discordId, msg);
+            } catch (err) {
+                log.error(`Failed to bridge direct message ${msg.id} for ${userId}`, err);
+            }
+        });
+    }
+
+    public async OnDiscordMessage(userId: string, discordId: string, msg: Discord.Message) {
+        if (msg.channel.type !== "dm" && msg.channel.type !== "group") {
+            return;
+        }
+        if (this.sentMessages.delete(msg.id)) {
+            return;
+        }
+        const channel = msg.channel as DiscordDMChannel;
+        const roomId = await this.GetOrCreateRoom(userId, discordId, channel);
+        await this.discord.UserSyncroniser.OnUpdateUser(msg.author);
+        const intent = this.discord.GetIntentFromDiscordMember(msg.author);
+        await this.JoinGhost(roomId, msg.author);
+
+        for (const attachment of msg.attachments.array()) {
+            const content = await Util.UploadContentFromUrl(attachment.url, intent, attachment.filename);
+            const fileMime = mime.lookup(attachment.filename);
+            const msgtype = {
+                audio: "m.audio",
+                image: "m.image",
+                video: "m.video",
+            }[fileMime.split("/")[0]] || "m.file";
+            await intent.sendMessage(roomId, {
+                body: attachment.filename,
+                external_url: attachment.url,
+                info: {
+                    mimetype: fileMime,
+                    size: attachment.filesize,
+                },
+                msgtype,
+                url: content.mxcUrl,
+            });
+        }
+        if (!msg.content) {
+            return;
+        }
+        const result = await this.discordMsgProcessor.FormatMessage(msg);
+        if (!result.body) {
+            return;
+        }
+        await intent.sendMessage(roomId, {
+            body: result.body,
+            format: "org.matrix.custom.html",
+            formatted_body: result.formattedBody,
+            msgtype: result.msgtype,
+        });
+    }
+
+    /**
+     * Sends a message from a DM room to Discord through the puppet of the user the room belongs to.
+     * @returns False if the room isn't a DM room.
+     */
+    public async OnMatrixMessage(event: IMatrixEvent): Promise<boolean> {
+        const dmRoom = await this.store.Get(DbDmRoom, {room_id: event.room_id});
+        if (!dmRoom || !dmRoom.Result) {
+            return false;
+        }
+        if (event.sender !== dmRoom.UserId) {
+            log.verbose(`Ignoring message of ${event.sender} in the DM room of ${dmRoom.UserId}`);
+            return true;
+        }
+        const relatesTo = event.content!["m.relates_to"];
+        if (relatesTo && relatesTo.rel_type === "m.replace") {
+            log.verbose(`Not bridging edit ${event.event_id} in DM room ${event.room_id}`);
+            return true;
+        }
+        const client = await this.discord.ClientFactory.getClientForAccount(dmRoom.UserId, dmRoom.DiscordId);
+        const channel = client.channels.get(dmRoom.ChannelId) as DiscordDMChannel | undefined;
+        if (client.user.id !== dmRoom.DiscordId || !channel) {
+            log.warn(`Can't send to DM ${dmRoom.ChannelId} of ${dmRoom.UserId}, is the puppet logged in?`);
+            await this.bridge.getIntent().sendMessage(event.room_id, {
+                body: "I could not send your message, because I am not logged in to your Discord account. " +
+                    "Use `!discord login` to log in again.",
+                msgtype: "m.notice",
+            });
+            return true;
+        }
+
+        const mxClient = this.bridge.getClientFactory().getClientAs();
+        const file = event.type === "m.sticker" ?
+            await this.discord.MxEventProcessor.HandleSticker(event, mxClient) :
+            await this.discord.MxEventProcessor.HandleAttachment(event, mxClient);
+        let sent: Discord.Message | Discord.Message[];
+        if (typeof(file) !== "string") {
+            sent = await channel.send("", {file});
+        } else if (file) {
+            sent = await channel.send(file);
+        } else {
+            const content = await this.matrixMsgProcessor.FormatMessage(event.content as IMatrixMessage, null, {
+                mxClient,
+                roomId: event.room_id,
+                userId: event.sender,
+            } as IMatrixMessageProcessorParams);
+            sent = await channel.send(content);
+        }
+        for (const msg of Array.isArray(sent) ? sent : [sent]) {
+            this.sentMessages.add(msg.id);
+        }
+        return true;
+    }
+
+    /**
+     * Opens the Discord DM with a ghost a user invited to a direct chat.
+     */
+    public async OnGhostInvite(event: IMatrixEvent) {
+        const match = new MatrixUser(event.state_key!).localpart.match(GHOST_REGEX);
+        if (!match) {
+            return;
+        }
+        const ghostIntent = this.bridge.getIntent(event.state_key);
+        await ghostIntent.join(event.room_id);
+        const client = await this.discord.ClientFactory.getClient(event.sender);
+        if (client.user.id === this.discord.GetBotId()) {
+            await ghostIntent.sendMessage(event.room_id, {
+                body: "Only users logged in with `!discord login` can send direct messages to Discord users.",
+                msgtype: "m.notice",
+            });
+            await ghostIntent.leave(event.room_id);
+            return;
+        }
+        let user: Discord.User;
+        let channel: Discord.DMChannel;
+        try {
+            user = await client.fetchUser(match[1]);
+            channel = await user.createDM();
+        } catch (err) {
+            log.warn(`Failed to open a DM with ${match[1]} for ${event.sender}`, err);
+            await ghostIntent.sendMessage(event.room_id, {
+                body: "I could not open a direct message with this Discord user.",
+                msgtype: "m.notice",
+            });
+            return;
+        }
+        await this.discord.UserSyncroniser.OnUpdateUser(user);
+        await ghostIntent.invite(event.room_id, this.discord.BotUserId);
+        await this.bridge.getIntent().join(event.room_id);
+        await this.StoreRoom(event.sender, client.user.id, channel.id, event.room_id);
+        log.info(`Bridged DM ${channel.id} of ${event.sender} to ${event.room_id}`);
+    }
+
+    private async GetOrCreateRoom(userId: string, discordId: string, channel: DiscordDMChannel): Promise<string> {
+        const dmRoom = await this.store.Get(DbDmRoom, {discord_id: discordId, channel_id: channel.id});
+        if (dmRoom && dmRoom.Result) {
+            return dmRoom.RoomId;
+        }
+        // A DM appears as a chat with the other user, a group DM is created by the bridge bot.
+        const creator = channel.type === "dm" ? (channel as Discord.DMChannel).recipient : null;
+        const intent = creator ? this.discord.GetIntentFromDiscordMember(creator) : this.bridge.getIntent();
+        if (creator) {
+            await this.discord.UserSyncroniser.OnUpdateUser(creator);
+        }
+        let name: string | undefined;
+        if (channel.type === "group") {
+            const group = channel as Discord.GroupDMChannel;
+            name = group.name || group.recipients.map((recipient) => recipient.username).join(", ");
+        }
+        const room = await intent.createRoom({
+            createAsClient: true,
+            options: {
+                invite: creator ? [userId, this.discord.BotUserId] : [userId],
+                is_direct: true,
+                name,
+                preset: "private_chat",
+                visibility: "private",
+            },
+        });
+        if (creator) {
+            await this.bridge.getIntent().join(room.room_id);
+        }
+        await this.StoreRoom(userId, discordId, channel.id, room.room_id);
+        log.info(`Created DM room ${room.room_id} for ${channel.id} of ${userId}`);
+        return room.room_id;
+    }
+
+    private async StoreRoom(userId: string, discordId: string, channelId: string, roomId: string) {
+        const dmRoom = await this.store.Get(DbDmRoom, {discord_id: discordId, channel_id: channelId});
+        if (dmRoom && dmRoom.Result) {
+            // A new direct chat replaces the old room.
+            dmRoom.RoomId = roomId;
+            await this.store.Update(dmRoom);
+            return;
+        }
+        const newRoom = new DbDmRoom();
+        newRoom.RoomId = roomId;
+        newRoom.UserId = userId;
+        newRoom.DiscordId = discordId;
+        newRoom.ChannelId = channelId;
+        await this.store.Insert(newRoom);
+    }
+
+    private async JoinGhost(roomId: string, user: Discord.User) {
+        const intent = this.discord.GetIntentFromDiscordMember(user);
+        try {
+            await intent.join(roomId);
+        } catch (err) {
+            // Participants that weren't there when the room was created need an invite first.
+            await this.bridge.getIntent().invite(roomId, intent.getClient().getUserId());
+            await intent.join(roomId);
+        }
+    }
+}
@@ -32,6 +32,22 @@ const PROVISIONING_DEFAULT_USER_POWER_LEVEL = 0;
 const ROOM_CACHE_MAXAGE_MS = 15 * 60 * 1000;
 /* tslint:enable:no-magic-numbers */
 
+// The Discord permissions `!discord status` checks, and what goes wrong without them.
+const STATUS_PERMISSIONS: {flag: Discord.PermissionString, name: string, effect: string}[] = [
+    {effect: "messages from Matrix cannot reach Discord", flag: "SEND_MESSAGES", name: "Send Messages"},
+    {
+        effect: "messages are sent as the bot instead of with the name and avatar of their sender",
+        flag: "MANAGE_WEBHOOKS",
+        name: "Manage Webhooks",
+    },
+    {
+        effect: "messages redacted on Matrix are not deleted on Discord",
+        flag: "MANAGE_MESSAGES",
+        name: "Manage Messages",
+    },
+    {effect: "messages sent as the bot without a webhook are not shown", flag: "EMBED_LINKS", name: "Embed Links"},
+];
+
 export class MatrixCommandHandler {
     private botJoinedRooms: Set<string> = new Set(); // roomids
     private botJoinedRoomsCacheUpdatedAt = 0;
@@ -57,6 +73,34 @@ export class MatrixCommandHandler {
         }
 
         const actions: ICommandActions = {
+            accounts: {
+                description: "Lists the Discord accounts you are logged in to",
+                params: [],
+                run: async () => {
+                    const discordIds = await this.discord.ClientFactory.getUserDiscordIds(event.sender);
+                    if (!discordIds.length) {
+                        return "You are not logged in. Your messages are relayed by the bot.";
+                    }
+                    const defaultId = await this.discord.ClientFactory.getDefaultDiscordId(event.sender);
+                    const preferences = await this.discord.ClientFactory.getDiscordIdPreferences(event.sender);
+                    const lines = discordIds.map((discordId) => {
+                        const guildIds = [...preferences.keys()].filter((guildId) =>
+                            guildId && preferences.get(guildId) === discordId);
+                        let line = `- \`${discordId}\``;
+                        if (discordId === defaultId) {
+                            line += " (default)";
+                        }
+                        if (guildIds.length) {
+                            line += `, used in guild(s) ${guildIds.map((guildId) => `\`${guildId}\``).join(", ")}`;
+                        }
+                        return line;
+                    });
+                    // tslint:disable prefer-template
+                    return "You are logged in to these Discord accounts:\n" + lines.join("\n") +
+                        "\n\nUse `!discord switch <discordId> [guildId]` to pick which account is used.";
+                    // tslint:enable prefer-template
+                },
+            },
             bridge: {
                 description: "Bridges this room to a Discord channel",
                 // tslint:disable prefer-template
@@ -94,7 +138,7 @@ export class MatrixCommandHandler {
                             msgtype: "m.notice",
                         });
 
-                        await this.provisioner.AskBridgePermission(channel, event.sender);
+                        await this.provisioner.AskBridgePermission(channel, event.sender, undefined, event.room_id);
                         await this.provisioner.BridgeMatrixRoom(channel, event.room_id);
                         return "I have bridged this room to your channel";
                     } catch (err) {
@@ -109,6 +153,152 @@ export class MatrixCommandHandler {
                     }
                 },
             },
+            login: {
+                description: "Logs in to your Discord account, so your messages are sent as you",
+                // tslint:disable prefer-template
+                help: "`!discord login <token>` puppets your Discord account with the given token.\n" +
+                    "Only use this in a direct message with me, the message containing your token will be removed.\n" +
+                    "See https://discordhelp.net/discord-token for how to find your token.",
+                // tslint:enable prefer-template
+                params: ["token"],
+                run: async ({token}) => {
+                    // Whatever happens, don't leave the token lying around in the room.
+                    let redacted = true;
+                    try {
+                        await this.bridge.getIntent().getClient().redactEvent(event.room_id, event.event_id);
+                    } catch (err) {
+                        log.warn(`Failed to redact the login message ${event.event_id}`, err);
+                        redacted = false;
+                    }
+                    const redactWarning = redacted ? "" :
+                        "\n\n**WARNING:** I could not remove the message containing your token, please redact it.";
+                    if (!(await this.isPrivateRoom(event.room_id, event.sender, context))) {
+                        return "For your safety, you can only log in from a direct message with me." + redactWarning;
+                    }
+                    if (!token) {
+                        return "Invalid syntax. For more information try `!discord help login`";
+                    }
+                    let discordId: string;
+                    try {
+                        discordId = await this.discord.ClientFactory.addUserToken(event.sender, token);
+                    } catch (err) {
+                        log.warn(`Failed to log ${event.sender} in`, err);
+                        return "I could not log in with that token, please check it and try again." + redactWarning;
+                    }
+                    log.info(`${event.sender} logged in as Discord user ${discordId}`);
+                    return `You are now logged in as Discord user \`${discordId}\`.` + redactWarning;
+                },
+            },
+            logout: {
+                description: "Logs out of your Discord account",
+                // tslint:disable prefer-template
+                help: "`!discord logout` logs out of all of your Discord accounts.\n" +
+                    "`!discord logout <discordId>` only logs out of the given account.",
+                // tslint:enable prefer-template
+                params: ["discordId"],
+                run: async ({discordId}) => {
+                    if (discordId) {
+                        if (!(await this.discord.ClientFactory.removeUserToken(event.sender, discordId))) {
+                            return `You are not logged in as Discord user \`${discordId}\`.`;
+                        }
+                        log.info(`${event.sender} logged out of Discord user ${discordId}`);
+                        return `You have been logged out of Discord user \`${discordId}\`.`;
+                    }
+                    const discordIds = await this.discord.ClientFactory.removeUserTokens(event.sender);
+                    if (!discordIds.length) {
+                        return "You are not logged in.";
+                    }
+                    log.info(`${event.sender} logged out of Discord user(s) ${discordIds.join(", ")}`);
+                    return "You have been logged out. Your messages will be relayed by the bot again.";
+                },
+            },
+            notices: {
+                description: "Toggles join/leave notices of this room on Discord",
+                params: ["toggle"],
+                permission: {
+                    cat: "events",
+                    level: PROVISIONING_DEFAULT_POWER_LEVEL,
+                    selfService: false,
+                    subcat: "m.room.power_levels",
+                },
+                run: async ({toggle}) => {
+                    if (!context.rooms.remote) {
+                        return "This room is not bridged.";
+                    }
+                    if (!["on", "off"].includes(toggle)) {
+                        return "Invalid syntax. For more information try `!discord help notices`";
+                    }
+                    const enabled = toggle === "on";
+                    await this.discord.ChannelSyncroniser.SetJoinLeaveNotices(event.room_id, enabled);
+                    return enabled ? "Join/leave notices will be sent to Discord." :
+                        "Join/leave notices will no longer be sent to Discord.";
+                },
+            },
+            status: {
+                description: "Shows the state of the bridge in this room, and how to fix any problems",
+                params: [],
+                permission: {
+                    cat: "events",
+                    level: PROVISIONING_DEFAULT_POWER_LEVEL,
+                    selfService: false,
+                    subcat: "m.room.power_levels",
+                },
+                run: async () => {
+                    const remoteRoom = context.rooms.remote as RemoteStoreRoom;
+                    if (!remoteRoom) {
+                        return "This room is not bridged.";
+                    }
+                    return await this.getStatus(remoteRoom);
+                },
+            },
+            switch: {
+                description: "Picks which of your Discord accounts is used",
+                // tslint:disable prefer-template
+                help: "`!discord switch <discordId>` makes the given account your default account.\n" +
+                    "`!discord switch <discordId> <guildId>` uses the given account in that guild only.\n" +
+                    "Use `!discord accounts` to list your accounts.",
+                // tslint:enable prefer-template
+                params: ["discordId", "guildId"],
+                run: async ({discordId, guildId}) => {
+                    if (!discordId) {
+                        return "Invalid syntax. For more information try `!discord help switch`";
+                    }
+                    if (!(await this.discord.ClientFactory.setPreferredDiscordId(event.sender, discordId, guildId))) {
+                        return `You are not logged in as Discord user \`${discordId}\`.`;
+                    }
+                    return guildId ? `Discord user \`${discordId}\` will be used in guild \`${guildId}\`.` :
+                        `Discord user \`${discordId}\` is now your default account.`;
+                },
+            },
+            sync: {
+                description: "Pushes name or topic changes of this room to the Discord channel",
+                // tslint:disable prefer-template
+                help: "`!discord sync <name|topic> <on|off>` toggles whether changes to the room name or topic " +
+                    "made on Matrix are applied to the bridged Discord channel.\n" +
+                    "The bridge needs the Manage Channels permission on Discord for this.",
+                // tslint:enable prefer-template
+                params: ["state", "toggle"],
+                permission: {
+                    cat: "events",
+                    level: PROVISIONING_DEFAULT_POWER_LEVEL,
+                    selfService: false,
+                    subcat: "m.room.power_levels",
+                },
+                run: async ({state, toggle}) => {
+                    if (!context.rooms.remote) {
+                        return "This room is not bridged.";
+                    }
+                    if (!["name", "topic"].includes(state) || !["on", "off"].includes(toggle)) {
+                        return "Invalid syntax. For more information try `!discord help sync`";
+                    }
+                    const enabled = toggle === "on";
+                    if (!(await this.discord.ChannelSyncroniser.SetMatrixStatePush(event.room_id, state, enabled))) {
+                        return "Only rooms bridged with `!discord bridge` can change the Discord channel.";
+                    }
+                    return enabled ? `Changes to the room ${state} will now be applied to Discord.` :
+                        `Changes to the room ${state} will no longer be applied to Discord.`;
+                },
+            },
             unbridge: {
                 description: "Unbridges a Discord channel from this room",
                 params: [],
@@ -141,6 +331,22 @@ export class MatrixCommandHandler {
                     }
                 },
             },
+            whoami: {
+                description: "Shows which Discord account you are logged in to",
+                params: [],
+                run: async () => {
+                    const discordIds = await this.discord.ClientFactory.getUserDiscordIds(event.sender);
+                    if (!discordIds.length) {
+                        return "You are not logged in. Your messages are relayed by the bot.";
+                    }
+                    const client = await this.discord.ClientFactory.getClient(event.sender);
+                    if (client.user.id === this.discord.GetBotId()) {
+                        return `You are logged in as Discord user \`${discordIds[0]}\`, ` +
+                            "but I could not log in with your token. Try logging in again.";
+                    }
+                    return `You are logged in as **${client.user.tag}** (\`${client.user.id}\`).`;
+                },
+            },
         };
 
         /*
@@ -159,6 +365,9 @@ export class MatrixCommandHandler {
                     return s;
                 },
             },
+            discordId: {
+                description: "The ID of one of your Discord accounts",
+            },
             guildId: {
                 description: "The ID of a guild/server on discord",
                 get: async (s) => {
@@ -170,6 +379,15 @@ export class MatrixCommandHandler {
                     return parts[0];
                 },
             },
+            state: {
+                description: "Either `name` or `topic`",
+            },
+            toggle: {
+                description: "Either `on` or `off`",
+            },
+            token: {
+                description: "Your Discord token",
+            },
         };
 
         const permissionCheck: CommandPermissonCheck = async (permission) => {
@@ -197,6 +415,81 @@ export class MatrixCommandHandler {
         });
     }
 
+    /**
+     * Describes the link of a room to its Discord channel, with a suggested fix for every problem found.
+     */
+    private async getStatus(remoteRoom: RemoteStoreRoom): Promise<string> {
+        const {discord_guild: guildId, discord_channel: channelId, plumbed} = remoteRoom.data;
+        const flag = (enabled) => enabled ? "on" : "off";
+        const lines = [
+            `- Type: ${plumbed ? "plumbed" : "portal"}`,
+            `- Updates from Discord: name ${flag(remoteRoom.data.update_name)}, ` +
+                `topic ${flag(remoteRoom.data.update_topic)}, icon ${flag(remoteRoom.data.update_icon)}`,
+        ];
+        const problems: string[] = [];
+        let channel: Discord.TextChannel;
+        try {
+            channel = (await this.discord.LookupRoom(guildId!, channelId!)).channel;
+        } catch (err) {
+            log.verbose(`Status lookup of ${guildId}/${channelId} failed`, err);
+            lines.unshift(`- Channel: \`${channelId}\` in guild \`${guildId}\``);
+            const unbridgeHint = plumbed ? ", or unbridge this room with `!discord unbridge`" : "";
+            problems.push("I cannot find the Discord channel. " +
+                `Check that the bot is still in the guild and can see the channel${unbridgeHint}.`);
+            return formatStatus(lines, problems);
+        }
+        lines.unshift(`- Channel: #${channel.name} (\`${channelId}\`) in ${channel.guild.name} (\`${guildId}\`)`);
+
+        const permissions = channel.permissionsFor(channel.guild.me);
+        const granted = STATUS_PERMISSIONS.map((perm) => ({
+            has: Boolean(permissions && permissions.has(perm.flag)),
+            perm,
+        }));
+        for (const {perm} of granted.filter((p) => !p.has)) {
+            problems.push(`The bot lacks the **${perm.name}** permission, so ${perm.effect}. ` +
+                `Grant it to the bot's role in the settings of the channel.`);
+        }
+
+        let webhook = "unknown, the bot cannot list the webhooks of this channel";
+        if (permissions && permissions.has("MANAGE_WEBHOOKS")) {
+            try {
+                const webhooks = await channel.fetchWebhooks();
+                if (webhooks.some((hook) => hook.name === "_matrix")) {
+                    webhook = "present";
+                } else {
+                    webhook = "missing";
+                    problems.push("The `_matrix` webhook is missing. It is created with the next message sent " +
+                        "from Matrix; if that fails, add a webhook named `_matrix` to the channel.");
+                }
+            } catch (err) {
+                log.warn(`Failed to fetch the webhooks of ${channel.id}`, err);
+            }
+        }
+        lines.push(`- Webhook \`_matrix\`: ${webhook}`);
+        lines.push("- Permissions: " + granted.map((p) => `${p.perm.name} ${p.has ? "yes" : "no"}`).join(", "));
+
+        const lastMessage = await this.discord.GetLastBridgedMessageTime(channel);
+        lines.push(`- Last bridged message: ${lastMessage ? lastMessage.toISOString() : "never"}`);
+        return formatStatus(lines, problems);
+    }
+
+    /**
+     * Checks whether a room is only shared by the user and the bot, so it is safe for secrets.
+     */
+    private async isPrivateRoom(roomId: string, userId: string, context: BridgeContext): Promise<boolean> {
+        if (context.rooms.remote) {
+            return false;
+        }
+        try {
+            const botUserId = this.bridge.getIntent().getClient().getUserId();
+            const members = (await this.bridge.getIntent().getClient().getJoinedRoomMembers(roomId)).joined;
+            return Object.keys(members).every((member) => member === userId || member === botUserId);
+        } catch (err) {
+            log.warn(`Failed to get the members of ${roomId}`, err);
+            return false;
+        }
+    }
+
     private async isBotInRoom(roomId: string): Promise<boolean> {
         // Update the room cache, if not done already.
         if (Date.now () - this.botJoinedRoomsCacheUpdatedAt > ROOM_CACHE_MAXAGE_MS) {
@@ -214,3 +507,9 @@ export class MatrixCommandHandler {
         return this.botJoinedRooms.has(roomId);
     }
 }
+
+function formatStatus(lines: string[], problems: string[]): string {
+    const summary = problems.length ? `**Problems:**\n${problems.map((problem) => `- ${problem}`).join("\n")}` :
+        "No problems found.";
+    return `**Bridge status**\n${lines.join("\n")}\n\n${summary}`;
+}
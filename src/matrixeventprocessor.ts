@@ -26,6 +26,7 @@ import { Client as MatrixClient } from "matrix-js-sdk";
 import { IMatrixEvent, IMatrixEventContent, IMatrixMessage } from "./matrixtypes";
 import { MatrixMessageProcessor, IMatrixMessageProcessorParams } from "./matrixmessageprocessor";
 import { MatrixCommandHandler } from "./matrixcommandhandler";
+import { RemoteStoreRoom } from "./db/roomstore";
 
 import { Log } from "./log";
 import { TimedCache } from "./structures/timedcache";
@@ -40,6 +41,8 @@ const DISCORD_AVATAR_HEIGHT = 128;
 const ROOM_NAME_PARTS = 2;
 const AGE_LIMIT = 900000; // 15 * 60 * 1000
 const PROFILE_CACHE_LIFETIME = 900000;
+const MAX_GROUPED_NOTICES = 10;
+const STICKER_SIZE = 160;
 
 export class MatrixEventProcessorOpts {
     constructor(
@@ -54,6 +57,13 @@ export class MatrixEventProcessorOpts {
 export interface IMatrixEventProcessorResult {
     messageEmbed: Discord.RichEmbed;
     replyEmbed?: Discord.RichEmbed;
+    replyMessage?: Discord.Message;
+}
+
+interface IMembershipNoticeGroup {
+    channel: Discord.TextChannel;
+    event: IMatrixEvent;
+    notices: string[];
 }
 
 export class MatrixEventProcessor {
@@ -63,6 +73,7 @@ export class MatrixEventProcessor {
     private matrixMsgProcessor: MatrixMessageProcessor;
     private mxCommandHandler: MatrixCommandHandler;
     private mxUserProfileCache: TimedCache<string, {displayname: string, avatar_url: string|undefined}>;
+    private membershipNotices: Map<string, IMembershipNoticeGroup>;
 
     constructor(opts: MatrixEventProcessorOpts, cm?: MatrixCommandHandler) {
         this.config = opts.config;
@@ -70,6 +81,7 @@ export class MatrixEventProcessor {
         this.discord = opts.discord;
         this.matrixMsgProcessor = new MatrixMessageProcessor(this.discord);
         this.mxUserProfileCache = new TimedCache(PROFILE_CACHE_LIFETIME);
+        this.membershipNotices = new Map();
         if (cm) {
             this.mxCommandHandler = cm;
         } else {
@@ -92,6 +104,10 @@ export class MatrixEventProcessor {
             await this.mxCommandHandler.HandleInvite(event);
             return;
         } else if (event.type === "m.room.member" && this.bridge.getBot().isRemoteUser(event.state_key)) {
+            if (event.content!.membership === "invite" && event.content!.is_direct) {
+                await this.discord.DMHandler.OnGhostInvite(event);
+                return;
+            }
             if (["leave", "ban"].includes(event.content!.membership!) && event.sender !== event.state_key) {
                 // Kick/Ban handling
                 let prevMembership = "";
@@ -109,12 +125,16 @@ export class MatrixEventProcessor {
                 );
             }
             return;
-        } else if (["m.room.member", "m.room.name", "m.room.topic"].includes(event.type)) {
-            await this.ProcessStateEvent(event);
+        } else if (["m.room.member", "m.room.name", "m.room.topic", "m.room.pinned_events"].includes(event.type)) {
+            const remoteRoom = context && context.rooms ? context.rooms.remote as RemoteStoreRoom|null : null;
+            await this.ProcessStateEvent(event, remoteRoom || undefined);
             return;
         } else if (event.type === "m.room.redaction" && context.rooms.remote) {
             await this.discord.ProcessMatrixRedact(event);
             return;
+        } else if (event.type === "m.reaction" && context.rooms.remote) {
+            await this.discord.ProcessMatrixReaction(event);
+            return;
         } else if (event.type === "m.room.message" || event.type === "m.sticker") {
             log.verbose(`Got ${event.type} event`);
             const isBotCommand = event.type === "m.room.message" &&
@@ -125,10 +145,20 @@ export class MatrixEventProcessor {
             } else if (context.rooms.remote) {
                 const srvChanPair = context.rooms.remote.roomId.substr("_discord".length).split("_", ROOM_NAME_PARTS);
                 try {
-                    await this.ProcessMsgEvent(event, srvChanPair[0], srvChanPair[1]);
+                    if (this.IsEdit(event)) {
+                        await this.ProcessEditEvent(event, srvChanPair[0], srvChanPair[1]);
+                    } else {
+                        await this.ProcessMsgEvent(event, srvChanPair[0], srvChanPair[1]);
+                    }
                 } catch (err) {
                     log.warn("There was an error sending a matrix event", err);
                 }
+            } else {
+                try {
+                    await this.discord.DMHandler.OnMatrixMessage(event);
+                } catch (err) {
+                    log.warn("There was an error sending a matrix event to a DM", err);
+                }
             }
             return;
         } else if (event.type === "m.room.encryption" && context.rooms.remote) {
@@ -170,22 +200,87 @@ export class MatrixEventProcessor {
 
         const embedSet = await this.EventToEmbed(event, chan);
         const opts: Discord.MessageOptions = {};
-        const file = await this.HandleAttachment(event, mxClient);
+        const isSticker = event.type === "m.sticker";
+        const file = isSticker ?
+            await this.HandleSticker(event, mxClient) :
+            await this.HandleAttachment(event, mxClient);
         if (typeof(file) === "string") {
             embedSet.messageEmbed.description += " " + file;
         } else {
             opts.file = file;
         }
 
-        await this.discord.send(embedSet, opts, roomLookup, event);
+        const msgs = await this.discord.send(embedSet, opts, roomLookup, event);
+        if (isSticker && opts.file) {
+            try {
+                await this.discord.StoreStickerUrl(event.content!.url!, msgs);
+            } catch (err) {
+                log.warn(`Failed to cache the Discord URL of sticker ${event.content!.url}`, err);
+            }
+        }
         // Don't await this.
         this.sendReadReceipt(event).catch((ex) => {
             log.verbose("Failed to send read reciept for ", event.event_id, ex);
         });
     }
 
-    public async ProcessStateEvent(event: IMatrixEvent) {
-        return;
+    public async ProcessEditEvent(event: IMatrixEvent, guildId: string, channelId: string) {
+        const relatesTo = event.content!["m.relates_to"];
+        log.verbose(`Got edit of ${relatesTo.event_id}, looking up ${guildId}_${channelId}`);
+        const roomLookup = await this.discord.LookupRoom(guildId, channelId, event.sender);
+        const newEvent = Object.assign({}, event, {content: event.content!["m.new_content"]});
+        const embedSet = await this.EventToEmbed(newEvent, roomLookup.channel, false);
+        if (await this.discord.edit(embedSet, roomLookup, relatesTo.event_id, event)) {
+            // Don't await this.
+            this.sendReadReceipt(event).catch((ex) => {
+                log.verbose("Failed to send read reciept for ", event.event_id, ex);
+            });
+            return;
+        }
+        log.info(`Could not edit the Discord message for ${relatesTo.event_id}, sending it as a new message`);
+        await this.ProcessMsgEvent(event, guildId, channelId);
+    }
+
+    public async ProcessStateEvent(event: IMatrixEvent, remoteRoom?: RemoteStoreRoom) {
+        const SUPPORTED_EVENTS = ["m.room.member", "m.room.name", "m.room.topic", "m.room.pinned_events"];
+        if (!SUPPORTED_EVENTS.includes(event.type)) {
+            log.verbose(`${event.event_id} ${event.type} is not displayable.`);
+            return;
+        }
+
+        if (event.sender === this.bridge.getIntent().getClient().getUserId()) {
+            log.verbose(`${event.event_id} ${event.type} is by our bot user, ignoring.`);
+            return;
+        }
+
+        if (!remoteRoom) {
+            log.verbose(`${event.event_id} ${event.type} is not in a bridged room, ignoring.`);
+            return;
+        }
+
+        if (event.type === "m.room.pinned_events") {
+            await this.discord.PinSyncroniser.OnMatrixPinnedEvents(event, remoteRoom);
+            return;
+        }
+
+        const channel = await this.discord.GetChannelFromRoomId(event.room_id) as Discord.TextChannel;
+        if (event.type === "m.room.member") {
+            const notice = this.GetMembershipNotice(event, remoteRoom);
+            if (notice) {
+                await this.SendMembershipNotice(`\`${event.sender}\` ${notice} on Matrix.`, channel, event);
+            }
+            return;
+        }
+
+        let msg = `\`${event.sender}\` `;
+        if (event.type === "m.room.name") {
+            msg += `set the name to \`${event.content!.name}\``;
+        } else if (event.type === "m.room.topic") {
+            msg += `set the topic to \`${event.content!.topic}\``;
+        }
+        msg += " on Matrix.";
+        await this.discord.sendAsBot(msg, channel, event);
+        await this.discord.ChannelSyncroniser.OnMatrixStateUpdate(event);
     }
 
     public async EventToEmbed(
@@ -210,7 +305,13 @@ export class MatrixEventProcessor {
         const messageEmbed = new Discord.RichEmbed();
         messageEmbed.setDescription(body);
         await this.SetEmbedAuthor(messageEmbed, event.sender, profile);
-        const replyEmbed = getReply ? (await this.GetEmbedForReply(event, channel)) : undefined;
+        let replyEmbed: Discord.RichEmbed|undefined;
+        let replyMessage: Discord.Message|undefined;
+        if (getReply) {
+            replyMessage = (await this.discord.GetReplyMessage(event, channel)) || undefined;
+            // Only fall back to an embed if the replied message isn't on Discord.
+            replyEmbed = replyMessage ? undefined : (await this.GetEmbedForReply(event, channel));
+        }
         if (replyEmbed && replyEmbed.fields) {
             for (let i = 0; i < replyEmbed.fields.length; i++) {
                 const f = replyEmbed.fields[i];
@@ -224,6 +325,7 @@ export class MatrixEventProcessor {
         return {
             messageEmbed,
             replyEmbed,
+            replyMessage,
         };
     }
 
@@ -250,17 +352,47 @@ export class MatrixEventProcessor {
         let size = event.content.info.size || 0;
         const url = mxClient.mxcUrlToHttp(event.content.url);
         const name = this.GetFilenameForMediaEvent(event.content);
+        const isSpoiler = event.content["page.codeberg.everypizza.msc4193.spoiler"];
         if (size < MaxFileSize) {
             const attachment = await Util.DownloadFile(url);
             size = attachment.byteLength;
             if (size < MaxFileSize) {
                 return {
                     attachment,
-                    name,
+                    // Discord hides attachments behind a spoiler based on their name.
+                    name: isSpoiler ? `SPOILER_${name}` : name,
                 } as Discord.FileOptions;
             }
         }
-        return `[${name}](${url})`;
+        return isSpoiler ? `||[${name}](${url})||` : `[${name}](${url})`;
+    }
+
+    public async HandleSticker(event: IMatrixEvent, mxClient: MatrixClient): Promise<string|Discord.FileOptions> {
+        if (!event.content || !event.content.url) {
+            log.info("Event was a sticker but was missing a content.url");
+            return "";
+        }
+        const cachedUrl = await this.discord.GetStickerUrlByMxc(event.content.url);
+        if (cachedUrl) {
+            return cachedUrl;
+        }
+        if (!event.content.info) {
+            event.content.info = {mimetype: "image/png"};
+        }
+        // Stickers are usually uploaded at a much higher resolution than they are displayed at.
+        // Animated GIFs would lose their animation if thumbnailed, so those are sent as they are.
+        const url = event.content.info.mimetype === "image/gif" ?
+            mxClient.mxcUrlToHttp(event.content.url) :
+            mxClient.mxcUrlToHttp(event.content.url, STICKER_SIZE, STICKER_SIZE, "scale");
+        const attachment = await Util.DownloadFile(url);
+        if (attachment.byteLength >= MaxFileSize) {
+            return `[${event.content.body || "Sticker"}](${url})`;
+        }
+        return {
+            attachment,
+            // Discord shows the file name in place of alt text.
+            name: this.GetFilenameForMediaEvent(event.content),
+        } as Discord.FileOptions;
     }
 
     public async GetEmbedForReply(
@@ -317,6 +449,79 @@ export class MatrixEventProcessor {
         return embed;
     }
 
+    private GetMembershipNotice(event: IMatrixEvent, remoteRoom?: RemoteStoreRoom): string|null {
+        const isGhost = (userId?: string) => userId && this.bridge.getBot().isRemoteUser(userId);
+        if (isGhost(event.sender) || isGhost(event.state_key)) {
+            log.verbose(`${event.event_id} concerns a Discord user, ignoring.`);
+            return null;
+        }
+        const allowJoinLeave = !this.config.bridge.disableJoinLeaveNotifications &&
+            !(remoteRoom && remoteRoom.get("mute_join_leave"));
+        const content = event.content!;
+        const prevContent = event.unsigned && event.unsigned.prev_content;
+        const membership = content.membership;
+        if (membership === "join" && allowJoinLeave) {
+            if (!prevContent || prevContent.membership !== "join") {
+                return "joined the room";
+            } else if (prevContent.displayname !== content.displayname) {
+                return content.displayname ?
+                    `changed their display name to \`${content.displayname}\`` : "removed their display name";
+            } else if (prevContent.avatar_url !== content.avatar_url) {
+                return "changed their avatar";
+            }
+        } else if (membership === "invite") {
+            return `invited \`${event.state_key}\` to the room`;
+        } else if (membership === "leave" && event.state_key !== event.sender) {
+            return `kicked \`${event.state_key}\` from the room`;
+        } else if (membership === "leave" && allowJoinLeave) {
+            return "left the room";
+        } else if (membership === "ban") {
+            return `banned \`${event.state_key}\` from the room`;
+        }
+        return null;
+    }
+
+    /**
+     * Sends the first membership notice of a room straight away, and groups
+     * any that follow within joinLeaveGroupDelay into a single message.
+     */
+    private async SendMembershipNotice(notice: string, channel: Discord.TextChannel, event: IMatrixEvent) {
+        const group = this.membershipNotices.get(event.room_id);
+        if (group) {
+            group.notices.push(notice);
+            group.event = event;
+            return;
+        }
+        await this.discord.sendAsBot(notice, channel, event);
+        this.OpenMembershipNoticeGroup(channel, event);
+    }
+
+    private OpenMembershipNoticeGroup(channel: Discord.TextChannel, event: IMatrixEvent) {
+        const delay = this.config.limits.joinLeaveGroupDelay;
+        if (delay <= 0) {
+            return;
+        }
+        const group: IMembershipNoticeGroup = { channel, event, notices: [] };
+        this.membershipNotices.set(event.room_id, group);
+        setTimeout(async () => {
+            this.membershipNotices.delete(event.room_id);
+            if (group.notices.length === 0) {
+                return;
+            }
+            let msg = group.notices.slice(0, MAX_GROUPED_NOTICES).join("\n");
+            if (group.notices.length > MAX_GROUPED_NOTICES) {
+                msg += `\n...and ${group.notices.length - MAX_GROUPED_NOTICES} more membership changes on Matrix.`;
+            }
+            try {
+                await this.discord.sendAsBot(msg, group.channel, group.event);
+            } catch (err) {
+                log.error(`Failed to send grouped membership notices for ${event.room_id}`, err);
+            }
+            // Keep grouping for as long as the burst goes on.
+            this.OpenMembershipNoticeGroup(group.channel, group.event);
+        }, delay);
+    }
+
     private async GetUserProfileForRoom(roomId: string, userId: string) {
         const mxClient = this.bridge.getClientFactory().getClientAs();
         const intent = this.bridge.getIntent();
@@ -366,6 +571,14 @@ export class MatrixEventProcessor {
         }
     }
 
+    private IsEdit(event: IMatrixEvent): boolean {
+        if (event.type !== "m.room.message" || !event.content || !event.content["m.new_content"]) {
+            return false;
+        }
+        const relatesTo = event.content["m.relates_to"];
+        return Boolean(relatesTo && relatesTo.rel_type === "m.replace" && relatesTo.event_id);
+    }
+
     private HasAttachment(event: IMatrixEvent): boolean {
         if (!event.content) {
             event.content = {};
@@ -34,14 +34,15 @@ export interface IMatrixMessageProcessorParams {
 }
 
 export class MatrixMessageProcessor {
-    private guild: Discord.Guild;
+    // Null for direct messages, which have no members, channels or emojis of their own.
+    private guild: Discord.Guild | null;
     private listDepth: number = 0;
     private listBulletPoints: string[] = ["●", "○", "■", "‣"];
     private params?: IMatrixMessageProcessorParams;
     constructor(public bot: DiscordBot) { }
     public async FormatMessage(
         msg: IMatrixMessage,
-        guild: Discord.Guild,
+        guild: Discord.Guild | null,
         params?: IMatrixMessageProcessorParams,
     ): Promise<string> {
         this.guild = guild;
@@ -139,7 +140,7 @@ export class MatrixMessageProcessor {
     private parseUser(id: string): string {
         const USER_REGEX = /^@_discord_([0-9]*)/;
         const match = id.match(USER_REGEX);
-        if (!match || !this.guild.members.get(match[1])) {
+        if (!match || (this.guild && !this.guild.members.get(match[1]))) {
             return "";
         }
         return `<@${match[1]}>`;
@@ -148,7 +149,7 @@ export class MatrixMessageProcessor {
     private async parseChannel(id: string): Promise<string> {
         const CHANNEL_REGEX = /^#_discord_[0-9]*_([0-9]*):/;
         const match = id.match(CHANNEL_REGEX);
-        if (!match || !this.guild.channels.get(match[1])) {
+        if (!match || !this.guild || !this.guild.channels.get(match[1])) {
             /*
             This isn't formatted in #_discord_, so let's fetch the internal room ID
             and see if it is still a bridged room!
@@ -177,6 +178,17 @@ export class MatrixMessageProcessor {
         return `[${content}](${attrs.href})`;
     }
 
+    private async parseSpanContent(node: Parser.HTMLElement): Promise<string> {
+        const content = await this.walkChildNodes(node);
+        // The parser leaves attributes without a value out of node.attributes.
+        if (!/\bdata-mx-spoiler\b/.test(node.rawAttrs)) {
+            return content;
+        }
+        const reason = node.attributes["data-mx-spoiler"];
+        // Discord spoilers have no reason, so put it in front.
+        return reason ? `(${await this.escapeDiscord(reason)}) ||${content}||` : `||${content}||`;
+    }
+
     private async parsePillContent(node: Parser.HTMLElement): Promise<string> {
         const attrs = node.attributes;
         if (!attrs.href || !attrs.href.startsWith(MATRIX_TO_LINK)) {
@@ -210,7 +222,7 @@ export class MatrixMessageProcessor {
             try {
                 const emojiDb = await this.bot.GetEmojiByMxc(attrs.src);
                 id = emojiDb.EmojiId;
-                emoji = this.guild.emojis.find((e) => e.id === id);
+                emoji = this.guild ? this.guild.emojis.find((e) => e.id === id) : null;
             } catch (e) {
                 emoji = null;
             }
@@ -219,7 +231,7 @@ export class MatrixMessageProcessor {
         if (!emoji) {
             const match = name.match(EMOTE_NAME_REGEX);
             let emojiName = "";
-            if (match) {
+            if (match && this.guild) {
                 emojiName = match[1];
                 emoji = this.guild.emojis.find((e) => e.name === emojiName);
             }
@@ -338,6 +350,8 @@ export class MatrixMessageProcessor {
                     return await this.parseUlContent(nodeHtml);
                 case "ol":
                     return await this.parseOlContent(nodeHtml);
+                case "span":
+                    return await this.parseSpanContent(nodeHtml);
                 case "mx-reply":
                     return "";
                 case "hr":
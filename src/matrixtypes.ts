@@ -16,16 +16,23 @@ limitations under the License.
 
 export interface IMatrixEventContent {
     body?: string;
+    format?: string;
+    formatted_body?: string;
     info?: any; // tslint:disable-line no-any
     name?: string;
     topic?: string;
     membership?: string;
+    is_direct?: boolean;
     msgtype?: string;
     url?: string;
     displayname?: string;
     avatar_url?: string;
     reason?: string;
+    pinned?: string[];
     "m.relates_to"?: any; // tslint:disable-line no-any
+    "m.new_content"?: any; // tslint:disable-line no-any
+    // MSC4193: media that should be hidden behind a spoiler.
+    "page.codeberg.everypizza.msc4193.spoiler"?: boolean;
 }
 
 export interface IMatrixEvent {
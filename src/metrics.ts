@@ -43,6 +43,7 @@ export interface IBridgeMetrics {
     requestOutcome(id: string, isRemote: boolean, outcome: string);
     remoteCall(method: string);
     setPresenceCount(count: number);
+    setPuppetCount(count: number);
     storeCall(method: string, cached: boolean);
 }
 
@@ -51,6 +52,7 @@ export class DummyBridgeMetrics implements IBridgeMetrics {
     public requestOutcome() {}
     public remoteCall() {}
     public setPresenceCount() {}
+    public setPuppetCount() {}
     public storeCall() {}
 }
 
@@ -71,6 +73,7 @@ export class PrometheusBridgeMetrics implements IBridgeMetrics {
     private remoteCallCounter: Counter;
     private storeCallCounter: Counter;
     private presenceGauge: Gauge;
+    private puppetGauge: Gauge;
     private remoteRequest: Histogram;
     private matrixRequest: Histogram;
     private requestsInFlight: Map<string, number>;
@@ -106,6 +109,11 @@ export class PrometheusBridgeMetrics implements IBridgeMetrics {
 
             name: "active_presence_users",
         });
+        this.puppetGauge = this.metrics.addGauge({
+            help: "Count of logged in puppet clients",
+            labels: [],
+            name: "active_puppets",
+        });
         this.matrixRequest = this.metrics.addTimer({
             help: "Histogram of processing durations of received Matrix messages",
             labels: ["outcome"],
@@ -145,6 +153,10 @@ export class PrometheusBridgeMetrics implements IBridgeMetrics {
         this.presenceGauge.set(count);
     }
 
+    public setPuppetCount(count: number) {
+        this.puppetGauge.set(count);
+    }
+
     public remoteCall(method: string) {
         this.remoteCallCounter.inc({method});
     }
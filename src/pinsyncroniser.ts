@@ -0,0 +1,159 @@
+/*
+Copyright 2019 matrix-appservice-discord
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import * as Discord from "discord.js";
+import { Bridge } from "matrix-appservice-bridge";
+import { DiscordBot } from "./bot";
+import { DiscordStore } from "./store";
+import { DbEvent } from "./db/dbdataevent";
+import { RemoteStoreRoom } from "./db/roomstore";
+import { IMatrixEvent } from "./matrixtypes";
+import { Log } from "./log";
+
+const log = new Log("PinSync");
+
+/**
+ * Mirrors pinned messages between Discord channels and the m.room.pinned_events state of their rooms.
+ * Discord is treated as the source of truth for bridged messages, pins of events that
+ * never reached Discord are left alone.
+ */
+export class PinSyncroniser {
+    // Channels we are currently pinning messages in, so we don't reconcile halfway through.
+    private pinningChannels: Set<string> = new Set();
+
+    constructor(
+        private bridge: Bridge,
+        private discord: DiscordBot,
+        private store: DiscordStore,
+    ) { }
+
+    /**
+     * Updates the pinned events of every room bridged to the channel to match the channel's pins.
+     * @param channel The Discord channel whose pins changed.
+     * @param roomIds Limit the update to these rooms, defaults to all rooms bridged to the channel.
+     */
+    public async OnDiscordPinsUpdate(channel: Discord.TextChannel, roomIds?: string[]): Promise<void> {
+        if (this.pinningChannels.has(channel.id)) {
+            log.verbose(`Ignoring pins update in ${channel.id}, we are pinning messages there`);
+            return;
+        }
+        if (!roomIds) {
+            try {
+                roomIds = await this.discord.ChannelSyncroniser.GetRoomIdsFromChannel(channel);
+            } catch (err) {
+                log.verbose(`No bridged rooms for ${channel.id}, not syncing pins`);
+                return;
+            }
+        }
+        const pinnedMsgIds = (await channel.fetchPinnedMessages()).keyArray();
+        const intent = this.bridge.getIntent();
+        await Promise.all(roomIds.map(async (roomId) => {
+            try {
+                const currentPins = await this.GetMatrixPins(roomId);
+                const bridgedPins = await this.GetEventIds(pinnedMsgIds, roomId);
+                const keptPins: string[] = [];
+                for (const eventId of currentPins) {
+                    if (bridgedPins.includes(eventId) || !(await this.GetMessageId(eventId, roomId, channel.id))) {
+                        keptPins.push(eventId);
+                    }
+                }
+                const pins = keptPins.concat(bridgedPins.filter((eventId) => !keptPins.includes(eventId)));
+                if (pins.length === currentPins.length && pins.every((eventId, i) => currentPins[i] === eventId)) {
+                    log.verbose(`Pins of ${roomId} are already up to date`);
+                    return;
+                }
+                log.info(`Updating pinned events of ${roomId} from ${channel.id}`);
+                await intent.sendStateEvent(roomId, "m.room.pinned_events", "", { pinned: pins });
+            } catch (err) {
+                log.warn(`Failed to sync pins of ${channel.id} to ${roomId}`, err);
+            }
+        }));
+    }
+
+    /**
+     * Pins and unpins Discord messages to match a new m.room.pinned_events state.
+     * @param event The m.room.pinned_events event.
+     * @param remoteRoom The remote room the event's room is bridged to.
+     */
+    public async OnMatrixPinnedEvents(event: IMatrixEvent, remoteRoom: RemoteStoreRoom): Promise<void> {
+        const guildId = remoteRoom.get("discord_guild") as string;
+        const channelId = remoteRoom.get("discord_channel") as string;
+        // Use the puppet of the sender if they have one, so the pin is done by them.
+        const chan = (await this.discord.LookupRoom(guildId, channelId, event.sender)).channel;
+        const pinnedEventIds = (event.content && event.content.pinned) || [];
+        const wantedMsgIds: string[] = [];
+        for (const eventId of pinnedEventIds) {
+            const msgId = await this.GetMessageId(eventId, event.room_id, chan.id);
+            if (msgId) {
+                wantedMsgIds.push(msgId);
+            }
+        }
+        const pinnedMsgs = await chan.fetchPinnedMessages();
+        this.pinningChannels.add(chan.id);
+        try {
+            for (const msgId of wantedMsgIds.filter((id) => !pinnedMsgs.has(id))) {
+                log.verbose(`Pinning ${msgId} in ${chan.id}`);
+                await (await chan.fetchMessage(msgId)).pin();
+            }
+            for (const msg of pinnedMsgs.array()) {
+                // Only unpin messages that are bridged to this room, other pins are none of our business.
+                if (!wantedMsgIds.includes(msg.id) && (await this.GetEventIds([msg.id], event.room_id)).length) {
+                    log.verbose(`Unpinning ${msg.id} in ${chan.id}`);
+                    await msg.unpin();
+                }
+            }
+        } catch (err) {
+            log.warn(`Failed to sync pins of ${event.room_id} to ${chan.id}`, err);
+        } finally {
+            this.pinningChannels.delete(chan.id);
+        }
+        // Bring the room back in line if any of the pins couldn't be applied.
+        await this.OnDiscordPinsUpdate(chan, [event.room_id]);
+    }
+
+    private async GetMatrixPins(roomId: string): Promise<string[]> {
+        try {
+            const state = await this.bridge.getIntent().getClient().getStateEvent(roomId, "m.room.pinned_events", "");
+            return (state && state.pinned) || [];
+        } catch (err) {
+            if (err.errcode !== "M_NOT_FOUND") {
+                throw err;
+            }
+            return [];
+        }
+    }
+
+    private async GetMessageId(eventId: string, roomId: string, channelId: string): Promise<string|null> {
+        const storeEvent = await this.store.Get(DbEvent, {matrix_id: `${eventId};${roomId}`});
+        while (storeEvent && storeEvent.Result && storeEvent.Next()) {
+            if (storeEvent.ChannelId === channelId) {
+                return storeEvent.DiscordId;
+            }
+        }
+        return null;
+    }
+
+    private async GetEventIds(msgIds: string[], roomId: string): Promise<string[]> {
+        const eventIds: string[] = [];
+        for (const msgId of msgIds) {
+            const eventId = (await this.discord.GetEventIdsByRoom(msgId)).get(roomId);
+            if (eventId && !eventIds.includes(eventId)) {
+                eventIds.push(eventId);
+            }
+        }
+        return eventIds;
+    }
+}
@@ -15,19 +15,38 @@ limitations under the License.
 */
 
 import * as Discord from "discord.js";
+import { Bridge } from "matrix-appservice-bridge";
 import { DbRoomStore, RemoteStoreRoom, MatrixStoreRoom } from "./db/roomstore";
 import { ChannelSyncroniser } from "./channelsyncroniser";
+import { PinSyncroniser } from "./pinsyncroniser";
+import { DiscordStore, IBridgeRequest } from "./store";
 import { Log } from "./log";
 
 const PERMISSION_REQUEST_TIMEOUT = 300000; // 5 minutes
+const APPROVE_EMOJI = "\u2705";
+const DENY_EMOJI = "\u274C";
 
 const log = new Log("Provisioner");
 
+interface IPendingRequest {
+    respond: (approved: boolean) => void;
+    requestor: string;
+    roomId?: string;
+    // The permission request message, which can be reacted to.
+    messageId?: string;
+}
+
 export class Provisioner {
 
-    private pendingRequests: Map<string, (approved: boolean) => void> = new Map(); // [channelId]: resolver fn
+    private pendingRequests: Map<string, IPendingRequest> = new Map(); // [channelId]: request
 
-    constructor(private roomStore: DbRoomStore, private channelSync: ChannelSyncroniser) { }
+    constructor(
+        private roomStore: DbRoomStore,
+        private channelSync: ChannelSyncroniser,
+        private pinSync?: PinSyncroniser,
+        private store?: DiscordStore,
+        private bridge?: Bridge,
+    ) { }
 
     public async BridgeMatrixRoom(channel: Discord.TextChannel, roomId: string) {
         const remote = new RemoteStoreRoom(`discord_${channel.guild.id}_${channel.id}_bridged`, {
@@ -38,7 +57,14 @@ export class Provisioner {
         });
 
         const local = new MatrixStoreRoom(roomId);
-        return this.roomStore.linkRooms(local, remote);
+        await this.roomStore.linkRooms(local, remote);
+        if (this.pinSync) {
+            try {
+                await this.pinSync.OnDiscordPinsUpdate(channel, [roomId]);
+            } catch (err) {
+                log.warn(`Failed to sync the pins of ${channel.id} to ${roomId}`, err);
+            }
+        }
     }
 
     public async UnbridgeChannel(channel: Discord.TextChannel, rId?: string) {
@@ -68,10 +94,141 @@ export class Provisioner {
         await this.roomStore.removeEntriesByRemoteRoomId(remoteRoom.getId());
     }
 
+    /**
+     * Asks the Discord channel to approve a bridge.
+     * If a room ID is given, the request is stored so it survives a restart of the bridge.
+     */
     public async AskBridgePermission(
         channel: Discord.TextChannel,
         requestor: string,
-        timeout: number = PERMISSION_REQUEST_TIMEOUT): Promise<string> {
+        timeout: number = PERMISSION_REQUEST_TIMEOUT,
+        roomId?: string): Promise<string> {
+        const approval = this.waitForApproval(channel, timeout, requestor, roomId);
+
+        const msg = await channel.send(`${requestor} on matrix would like to bridge this channel. Someone with ` +
+            `permission to manage webhooks please react with ${APPROVE_EMOJI} or ${DENY_EMOJI}, or reply with ` +
+            "`!matrix approve` or `!matrix deny` in the next 5 minutes") as Discord.Message;
+        const request = this.pendingRequests.get(`${channel.guild.id}/${channel.id}`);
+        if (request) {
+            request.messageId = msg.id;
+        }
+        if (roomId && this.store) {
+            await this.store.addBridgeRequest({
+                channelId: channel.id,
+                expiresAt: Date.now() + timeout,
+                guildId: channel.guild.id,
+                messageId: msg.id,
+                requestor,
+                roomId,
+            });
+        }
+        try {
+            await msg.react(APPROVE_EMOJI);
+            await msg.react(DENY_EMOJI);
+        } catch (err) {
+            log.warn(`Failed to add the approval reactions in ${channel.id}`, err);
+        }
+        return await approval;
+
+    }
+
+    /**
+     * Picks up the bridge requests that were still pending when the bridge stopped.
+     * The outcome is posted to the requesting room, as nobody is waiting for it anymore.
+     */
+    public async RestoreBridgeRequests(client: Discord.Client) {
+        if (!this.store) {
+            return;
+        }
+        const requests = await this.store.getBridgeRequests();
+        for (const request of requests) {
+            const channel = client.channels.get(request.channelId) as Discord.TextChannel | undefined;
+            const remaining = request.expiresAt - Date.now();
+            if (!channel || remaining <= 0) {
+                await this.store.deleteBridgeRequest(request.guildId, request.channelId);
+                await this.notifyRoom(request.roomId, channel ?
+                    "Timed out waiting for a response from the Discord owners" :
+                    "The Discord channel you asked to bridge no longer exists");
+                continue;
+            }
+            log.info(`Restored the request of ${request.requestor} to bridge ${request.roomId} to ${channel.id}`);
+            this.completeRestoredRequest(request, channel, remaining).catch((err) => {
+                log.error(`Failed to complete the bridge request for ${request.roomId}`, err);
+            });
+            if (request.messageId) {
+                this.pendingRequests.get(`${channel.guild.id}/${channel.id}`)!.messageId = request.messageId;
+                try {
+                    // Reactions are only reported for cached messages.
+                    await channel.fetchMessage(request.messageId);
+                } catch (err) {
+                    log.warn(`Failed to fetch the bridge request message ${request.messageId}`, err);
+                }
+            }
+        }
+    }
+
+    public HasPendingRequest(channel: Discord.TextChannel): boolean {
+        const channelId = `${channel.guild.id}/${channel.id}`;
+        return this.pendingRequests.has(channelId);
+    }
+
+    public async MarkApproved(
+        channel: Discord.TextChannel,
+        member: Discord.GuildMember,
+        allow: boolean,
+    ): Promise<boolean> {
+        const channelId = `${channel.guild.id}/${channel.id}`;
+        if (!this.pendingRequests.has(channelId)) {
+            return false; // no change, so false
+        }
+
+        const perms = channel.permissionsFor(member);
+        if (!perms || !perms.has(Discord.Permissions.FLAGS.MANAGE_WEBHOOKS as Discord.PermissionResolvable)) {
+            // Missing permissions, so just reject it
+            throw new Error("You do not have permission to manage webhooks in this channel");
+        }
+
+        const request = this.pendingRequests.get(channelId)!;
+        request.respond(allow);
+        await this.recordDecision(channel, member, allow, request);
+        return true; // replied, so true
+    }
+
+    /**
+     * Approves or declines a bridge request when someone reacts to its permission request message.
+     * @returns Whether the reaction was on a pending permission request message.
+     */
+    public async MarkApprovedByReaction(reaction: Discord.MessageReaction, user: Discord.User): Promise<boolean> {
+        const channel = reaction.message.channel as Discord.TextChannel;
+        if (!channel.guild) {
+            return false;
+        }
+        const request = this.pendingRequests.get(`${channel.guild.id}/${channel.id}`);
+        if (!request || request.messageId !== reaction.message.id) {
+            return false;
+        }
+        if (![APPROVE_EMOJI, DENY_EMOJI].includes(reaction.emoji.name)) {
+            return true;
+        }
+        const allow = reaction.emoji.name === APPROVE_EMOJI;
+        const member = await channel.guild.fetchMember(user);
+        try {
+            await this.MarkApproved(channel, member, allow);
+        } catch (err) {
+            await reaction.remove(user);
+            await channel.send(`${user}: ${err.message}`);
+            return true;
+        }
+        await channel.send(`Thanks for your response! The matrix bridge has been ${allow ? "approved" : "declined"}`);
+        return true;
+    }
+
+    private async waitForApproval(
+        channel: Discord.TextChannel,
+        timeout: number,
+        requestor: string,
+        roomId?: string,
+    ): Promise<string> {
         const channelId = `${channel.guild.id}/${channel.id}`;
 
         let responded = false;
@@ -86,6 +243,11 @@ export class Provisioner {
 
             responded = true;
             this.pendingRequests.delete(channelId);
+            if (this.store) {
+                this.store.deleteBridgeRequest(channel.guild.id, channel.id).catch((err) => {
+                    log.warn(`Failed to delete the bridge request for ${channelId}`, err);
+                });
+            }
             if (approved) {
                 resolve("Approved");
             } else {
@@ -97,37 +259,66 @@ export class Provisioner {
             }
         };
 
-        this.pendingRequests.set(channelId, approveFn);
+        this.pendingRequests.set(channelId, {requestor, respond: approveFn, roomId});
         setTimeout(() => approveFn(false, true), timeout);
-
-        await channel.send(`${requestor} on matrix would like to bridge this channel. Someone with permission` +
-            " to manage webhooks please reply with `!matrix approve` or `!matrix deny` in the next 5 minutes");
-        return await deferP;
-
+        return deferP;
     }
 
-    public HasPendingRequest(channel: Discord.TextChannel): boolean {
-        const channelId = `${channel.guild.id}/${channel.id}`;
-        return this.pendingRequests.has(channelId);
+    private async completeRestoredRequest(request: IBridgeRequest, channel: Discord.TextChannel, timeout: number) {
+        try {
+            await this.waitForApproval(channel, timeout, request.requestor, request.roomId);
+        } catch (err) {
+            await this.notifyRoom(request.roomId, err.message);
+            return;
+        }
+        try {
+            await this.BridgeMatrixRoom(channel, request.roomId);
+        } catch (err) {
+            log.error(`Error bridging ${request.roomId} to ${channel.guild.id}/${channel.id}`, err);
+            await this.notifyRoom(request.roomId, "There was a problem bridging that channel.");
+            return;
+        }
+        await this.notifyRoom(request.roomId, "I have bridged this room to your channel");
     }
 
-    public async MarkApproved(
+    private async recordDecision(
         channel: Discord.TextChannel,
         member: Discord.GuildMember,
         allow: boolean,
-    ): Promise<boolean> {
-        const channelId = `${channel.guild.id}/${channel.id}`;
-        if (!this.pendingRequests.has(channelId)) {
-            return false; // no change, so false
+        request: IPendingRequest,
+    ) {
+        const decision = allow ? "approved" : "declined";
+        log.info(`${member.id} ${decision} the bridge of ${channel.guild.id}/${channel.id} to ${request.roomId}`);
+        if (!this.store) {
+            return;
         }
-
-        const perms = channel.permissionsFor(member);
-        if (!perms || !perms.has(Discord.Permissions.FLAGS.MANAGE_WEBHOOKS as Discord.PermissionResolvable)) {
-            // Missing permissions, so just reject it
-            throw new Error("You do not have permission to manage webhooks in this channel");
+        try {
+            await this.store.addBridgeApproval({
+                approverId: member.id,
+                approverName: member.user.tag,
+                channelId: channel.id,
+                decidedAt: Date.now(),
+                decision,
+                guildId: channel.guild.id,
+                requestor: request.requestor,
+                roomId: request.roomId,
+            });
+        } catch (err) {
+            log.error(`Failed to record who ${decision} the bridge of ${channel.id}`, err);
         }
+    }
 
-        this.pendingRequests.get(channelId)!(allow);
-        return true; // replied, so true
+    private async notifyRoom(roomId: string, message: string) {
+        if (!this.bridge) {
+            return;
+        }
+        try {
+            await this.bridge.getIntent().sendMessage(roomId, {
+                body: message,
+                msgtype: "m.notice",
+            });
+        } catch (err) {
+            log.warn(`Failed to tell ${roomId} about the outcome of its bridge request`, err);
+        }
     }
 }
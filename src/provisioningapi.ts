@@ -0,0 +1,260 @@
+/*
+Copyright 2019 matrix-appservice-discord
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import * as crypto from "crypto";
+import * as Discord from "discord.js";
+import { Bridge } from "matrix-appservice-bridge";
+import { DiscordBot } from "./bot";
+import { DiscordBridgeConfigProvisioning } from "./config";
+import { DbRoomStore, RemoteStoreRoom } from "./db/roomstore";
+import { DiscordStore } from "./store";
+import { Log } from "./log";
+
+const log = new Log("ProvisioningApi");
+
+const PATH_PREFIX = "/_matrix/provision/v1";
+
+const HTTP_OK = 200;
+const HTTP_ACCEPTED = 202;
+const HTTP_BAD_REQUEST = 400;
+const HTTP_UNAUTHORIZED = 401;
+const HTTP_FORBIDDEN = 403;
+const HTTP_NOT_FOUND = 404;
+const HTTP_CONFLICT = 409;
+const HTTP_SERVER_ERROR = 500;
+
+interface IProvisioningResponse {
+    status: number;
+    // tslint:disable-next-line no-any
+    body: any;
+}
+
+interface IBridgeRequest {
+    guild_id: string;
+    channel_id: string;
+    user_id: string;
+    status: "pending" | "approved" | "declined" | "failed";
+    error?: string;
+}
+
+/**
+ * An HTTP API on the appservice listener that lets integration managers bridge and unbridge rooms.
+ * Every request has to carry the configured shared secret as a bearer token.
+ */
+export class ProvisioningApi {
+    constructor(
+        private config: DiscordBridgeConfigProvisioning,
+        private bridge: Bridge,
+        private discord: DiscordBot,
+        private roomStore: DbRoomStore,
+        private store: DiscordStore,
+    ) {
+        if (!config.sharedSecret) {
+            throw new Error("The provisioning API requires a shared secret");
+        }
+    }
+
+    public Register() {
+        this.addPath("GET", "/guilds", async () => this.getGuilds());
+        this.addPath("GET", "/guilds/:guildId/channels", async (req) => this.getChannels(req.params.guildId));
+        this.addPath("GET", "/rooms/:roomId/links", async (req) => this.getLinks(req.params.roomId));
+        this.addPath("POST", "/rooms/:roomId/links", async (req) => this.bridgeRoom(req.params.roomId, req.body));
+        this.addPath("DELETE", "/rooms/:roomId/links", async (req) => this.unbridgeRoom(req.params.roomId));
+        this.addPath("GET", "/rooms/:roomId/request", async (req) => this.getRequest(req.params.roomId));
+        log.info(`Registered the provisioning API at ${PATH_PREFIX}`);
+    }
+
+    private addPath(method: string, path: string, handler: (req) => Promise<IProvisioningResponse>) {
+        this.bridge.addAppServicePath({
+            handler: async (req, res) => {
+                const authError = this.checkAuthorization(req);
+                if (authError) {
+                    res.status(authError.status).json(authError.body);
+                    return;
+                }
+                try {
+                    const result = await handler(req);
+                    res.status(result.status).json(result.body);
+                } catch (err) {
+                    log.error(`Failed to handle ${method} ${req.path}`, err);
+                    res.status(HTTP_SERVER_ERROR).json({errcode: "M_UNKNOWN", error: "Internal server error"});
+                }
+            },
+            method,
+            path: PATH_PREFIX + path,
+        });
+    }
+
+    private checkAuthorization(req): IProvisioningResponse | null {
+        const header: string = req.headers.authorization || "";
+        const token: string = header.startsWith("Bearer ") ? header.substr("Bearer ".length) :
+            req.query.access_token;
+        if (!token) {
+            return error(HTTP_UNAUTHORIZED, "M_MISSING_TOKEN", "No access token given");
+        }
+        const given = Buffer.from(token);
+        const expected = Buffer.from(this.config.sharedSecret);
+        if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+            return error(HTTP_FORBIDDEN, "M_FORBIDDEN", "Bad access token");
+        }
+        return null;
+    }
+
+    private async getGuilds(): Promise<IProvisioningResponse> {
+        const guilds = this.discord.GetGuilds().map((guild) => ({
+            id: guild.id,
+            name: guild.name,
+        }));
+        return {body: {guilds}, status: HTTP_OK};
+    }
+
+    private async getChannels(guildId: string): Promise<IProvisioningResponse> {
+        if (!this.discord.GetGuilds().some((guild) => guild.id === guildId)) {
+            return error(HTTP_NOT_FOUND, "M_NOT_FOUND", "The bot is not in this guild");
+        }
+        const channels = this.discord.ThirdpartySearchForChannels(guildId, "").map((result) => ({
+            alias: result.alias,
+            id: result.fields.channel_id,
+            name: result.fields.channel_name,
+        }));
+        return {body: {channels}, status: HTTP_OK};
+    }
+
+    private async getLinks(roomId: string): Promise<IProvisioningResponse> {
+        const entries = await this.roomStore.getEntriesByMatrixId(roomId);
+        const links = entries.filter((entry) => entry.remote).map((entry) => {
+            const remote = entry.remote as RemoteStoreRoom;
+            return {
+                channel_id: remote.data.discord_channel,
+                guild_id: remote.data.discord_guild,
+                plumbed: Boolean(remote.data.plumbed),
+            };
+        });
+        return {body: {links}, status: HTTP_OK};
+    }
+
+    private async bridgeRoom(roomId: string, body): Promise<IProvisioningResponse> {
+        const {guild_id: guildId, channel_id: channelId, user_id: userId} = body || {} as IBridgeRequest;
+        if (typeof(guildId) !== "string" || typeof(channelId) !== "string" || typeof(userId) !== "string") {
+            return error(HTTP_BAD_REQUEST, "M_MISSING_PARAM", "guild_id, channel_id and user_id are required");
+        }
+        const entries = await this.roomStore.getEntriesByMatrixId(roomId);
+        if (entries.some((entry) => Boolean(entry.remote))) {
+            return error(HTTP_CONFLICT, "M_ROOM_IN_USE", "This room is already bridged to a Discord channel");
+        }
+        let channel: Discord.TextChannel;
+        try {
+            channel = (await this.discord.LookupRoom(guildId, channelId)).channel;
+        } catch (err) {
+            return error(HTTP_NOT_FOUND, "M_NOT_FOUND", "The bot cannot see this channel");
+        }
+        if (this.discord.Provisioner.HasPendingRequest(channel)) {
+            return error(HTTP_CONFLICT, "M_UNKNOWN", "A bridge to this channel is already awaiting approval");
+        }
+        try {
+            await this.bridge.getIntent().join(roomId);
+        } catch (err) {
+            log.warn(`Failed to join ${roomId} for a bridge request`, err);
+            return error(HTTP_FORBIDDEN, "M_FORBIDDEN", "The bridge bot could not join the room, invite it first");
+        }
+
+        log.info(`${userId} requested to bridge ${roomId} to ${guildId}/${channelId}`);
+        // Approval can take minutes, so the outcome is fetched from the request endpoint.
+        this.awaitApproval(channel, userId, roomId).catch((err) => {
+            log.error(`Failed to handle the bridge request for ${roomId}`, err);
+        });
+        const request: IBridgeRequest = {channel_id: channelId, guild_id: guildId, status: "pending", user_id: userId};
+        return {body: request, status: HTTP_ACCEPTED};
+    }
+
+    private async awaitApproval(channel: Discord.TextChannel, userId: string, roomId: string) {
+        const provisioner = this.discord.Provisioner;
+        try {
+            await provisioner.AskBridgePermission(channel, userId, undefined, roomId);
+        } catch (err) {
+            log.info(`The bridge of ${roomId} to ${channel.guild.id}/${channel.id} was not approved: ${err.message}`);
+            return;
+        }
+        try {
+            await provisioner.BridgeMatrixRoom(channel, roomId);
+        } catch (err) {
+            log.error(`Failed to bridge ${roomId} to ${channel.guild.id}/${channel.id}`, err);
+            return;
+        }
+        log.info(`Bridged ${roomId} to ${channel.guild.id}/${channel.id}`);
+    }
+
+    private async unbridgeRoom(roomId: string): Promise<IProvisioningResponse> {
+        const entries = await this.roomStore.getEntriesByMatrixId(roomId);
+        const entry = entries.find((e) => Boolean(e.remote));
+        if (!entry) {
+            return error(HTTP_NOT_FOUND, "M_NOT_FOUND", "This room is not bridged");
+        }
+        const remote = entry.remote as RemoteStoreRoom;
+        if (!remote.data.plumbed) {
+            return error(HTTP_BAD_REQUEST, "M_UNKNOWN", "This room cannot be unbridged");
+        }
+        const {channel} = await this.discord.LookupRoom(remote.data.discord_guild!, remote.data.discord_channel!);
+        await this.discord.Provisioner.UnbridgeChannel(channel, roomId);
+        log.info(`Unbridged ${roomId} from ${channel.guild.id}/${channel.id}`);
+        return {body: {}, status: HTTP_OK};
+    }
+
+    /**
+     * Reports on the last bridge request of a room. Requests are stored by the provisioner, so their
+     * status survives a restart: pending requests are stored until they are decided on, after which
+     * the decision and whether the room got linked tell the outcome.
+     */
+    private async getRequest(roomId: string): Promise<IProvisioningResponse> {
+        const pending = (await this.store.getBridgeRequests()).find((r) => r.roomId === roomId);
+        if (pending) {
+            const body: IBridgeRequest = {
+                channel_id: pending.channelId,
+                guild_id: pending.guildId,
+                status: "pending",
+                user_id: pending.requestor,
+            };
+            return {body, status: HTTP_OK};
+        }
+        const approvals = await this.store.getBridgeApprovalsOfRoom(roomId);
+        const approval = approvals[approvals.length - 1];
+        if (!approval) {
+            return error(HTTP_NOT_FOUND, "M_NOT_FOUND", "No bridge was requested for this room");
+        }
+        const request: IBridgeRequest = {
+            channel_id: approval.channelId,
+            guild_id: approval.guildId,
+            status: approval.decision,
+            user_id: approval.requestor,
+        };
+        if (approval.decision === "declined") {
+            request.error = `The bridge has been declined by ${approval.approverName}`;
+        } else {
+            const entries = await this.roomStore.getEntriesByMatrixId(roomId);
+            const linked = entries.some((entry) => Boolean(entry.remote) &&
+                (entry.remote as RemoteStoreRoom).data.discord_channel === approval.channelId);
+            if (!linked) {
+                request.status = "failed";
+                request.error = "The bridge was approved, but the room is not bridged to the channel";
+            }
+        }
+        return {body: request, status: HTTP_OK};
+    }
+}
+
+function error(status: number, errcode: string, message: string): IProvisioningResponse {
+    return {body: {errcode, error: message}, status};
+}
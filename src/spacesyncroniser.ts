@@ -0,0 +1,332 @@
+/*
+Copyright 2019 matrix-appservice-discord
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import * as Discord from "discord.js";
+import { Bridge } from "matrix-appservice-bridge";
+import { DiscordBot } from "./bot";
+import { DiscordBridgeConfig } from "./config";
+import { DiscordStore, IGuildSpace } from "./store";
+import { MatrixStoreRoom, RemoteStoreRoom } from "./db/roomstore";
+import { Util } from "./util";
+import { Log } from "./log";
+
+const log = new Log("SpaceSyncroniser");
+
+// The category ID under which the space of the guild itself is stored.
+const GUILD_SPACE = "";
+
+/**
+ * Mirrors Discord guilds as Matrix spaces: every visible text channel becomes a child room,
+ * and every category a sub-space holding its channels.
+ */
+export class SpaceSyncroniser {
+    constructor(
+        private bridge: Bridge,
+        private config: DiscordBridgeConfig,
+        private discord: DiscordBot,
+        private store: DiscordStore,
+    ) { }
+
+    public get IsEnabled(): boolean {
+        return this.config.bridge.enableGuildSpaces;
+    }
+
+    public GetSpaceAlias(guildId: string): string {
+        return `#_discord_${guildId}:${this.config.bridge.domain}`;
+    }
+
+    /**
+     * Creates the space of a guild, and adds any channels and categories that are missing from it.
+     * @returns The room ID of the space.
+     */
+    public async BridgeGuild(guild: Discord.Guild): Promise<string> {
+        const spaces = await this.getSpaces(guild.id);
+        let guildSpace = spaces.get(GUILD_SPACE);
+        if (!guildSpace) {
+            guildSpace = await this.createSpace(guild, null);
+            spaces.set(GUILD_SPACE, guildSpace);
+        }
+        const categories = guild.channels.array().filter(
+            (c): c is Discord.CategoryChannel => c.type === "category",
+        );
+        for (const category of categories) {
+            if (!spaces.has(category.id) && this.isVisible(category)) {
+                spaces.set(category.id, await this.createSpace(guild, category));
+            }
+        }
+        for (const channel of guild.channels.filter((c) => c.type === "text").array()) {
+            if (!this.isVisible(channel)) {
+                continue;
+            }
+            try {
+                await this.addChannel(channel as Discord.TextChannel, spaces);
+            } catch (err) {
+                log.error(`Failed to add channel ${channel.id} to the space of ${guild.id}`, err);
+            }
+        }
+        log.info(`Bridged guild ${guild.id} as space ${guildSpace.spaceId}`);
+        return guildSpace.spaceId;
+    }
+
+    public async OnChannelCreate(channel: Discord.Channel) {
+        if (channel.type !== "text" && channel.type !== "category") {
+            return;
+        }
+        const guildChannel = channel as Discord.GuildChannel;
+        const spaces = await this.getSpaces(guildChannel.guild.id);
+        if (!spaces.has(GUILD_SPACE) || !this.isVisible(guildChannel)) {
+            return;
+        }
+        if (channel.type === "category") {
+            await this.createSpace(guildChannel.guild, guildChannel as Discord.CategoryChannel);
+        } else {
+            await this.addChannel(channel as Discord.TextChannel, spaces);
+        }
+    }
+
+    public async OnChannelUpdate(oldChannel: Discord.Channel, newChannel: Discord.Channel) {
+        if (newChannel.type !== "text" && newChannel.type !== "category") {
+            return;
+        }
+        const channel = newChannel as Discord.GuildChannel;
+        const spaces = await this.getSpaces(channel.guild.id);
+        if (!spaces.has(GUILD_SPACE)) {
+            return;
+        }
+        if (channel.type === "category") {
+            const space = spaces.get(channel.id);
+            if (space && space.name !== channel.name) {
+                await this.bridge.getIntent().setRoomName(space.spaceId, channel.name);
+                space.name = channel.name;
+                await this.store.upsertGuildSpace(space);
+            }
+            return;
+        }
+        const oldParentId = (oldChannel as Discord.GuildChannel).parentID;
+        if (oldParentId === channel.parentID) {
+            return;
+        }
+        // The channel moved to another category.
+        const oldParent = spaces.get(oldParentId || GUILD_SPACE) || spaces.get(GUILD_SPACE)!;
+        for (const roomId of await this.getChannelRoomIds(channel)) {
+            await this.removeChild(oldParent.spaceId, roomId);
+        }
+        await this.addChannel(channel as Discord.TextChannel, spaces);
+    }
+
+    public async OnChannelDelete(channel: Discord.Channel) {
+        if (channel.type !== "text" && channel.type !== "category") {
+            return;
+        }
+        const guildChannel = channel as Discord.GuildChannel;
+        const spaces = await this.getSpaces(guildChannel.guild.id);
+        const guildSpace = spaces.get(GUILD_SPACE);
+        if (!guildSpace) {
+            return;
+        }
+        if (channel.type === "category") {
+            const space = spaces.get(channel.id);
+            if (space) {
+                await this.removeChild(guildSpace.spaceId, space.spaceId);
+                await this.store.deleteGuildSpace(space.guildId, space.categoryId);
+            }
+            return;
+        }
+        const parent = spaces.get(guildChannel.parentID || GUILD_SPACE) || guildSpace;
+        for (const roomId of await this.getChannelRoomIds(guildChannel)) {
+            await this.removeChild(parent.spaceId, roomId);
+        }
+    }
+
+    /**
+     * Keeps the name and avatar of the space of a guild in sync.
+     */
+    public async OnGuildUpdate(guild: Discord.Guild) {
+        const space = (await this.getSpaces(guild.id)).get(GUILD_SPACE);
+        if (!space) {
+            return;
+        }
+        const intent = this.bridge.getIntent();
+        let updated = false;
+        if (space.name !== guild.name) {
+            log.verbose(`Updating the name of space ${space.spaceId} to "${guild.name}"`);
+            await intent.setRoomName(space.spaceId, guild.name);
+            space.name = guild.name;
+            updated = true;
+        }
+        if (space.icon !== guild.icon) {
+            log.verbose(`Updating the avatar of space ${space.spaceId}`);
+            await intent.setRoomAvatar(space.spaceId, await this.uploadIcon(guild));
+            space.icon = guild.icon;
+            updated = true;
+        }
+        if (updated) {
+            await this.store.upsertGuildSpace(space);
+        }
+    }
+
+    private async getSpaces(guildId: string): Promise<Map<string, IGuildSpace>> {
+        const spaces = new Map<string, IGuildSpace>();
+        for (const space of await this.store.getGuildSpaces(guildId)) {
+            spaces.set(space.categoryId, space);
+        }
+        return spaces;
+    }
+
+    private async createSpace(guild: Discord.Guild, category: Discord.CategoryChannel | null): Promise<IGuildSpace> {
+        const intent = this.bridge.getIntent();
+        const name = category ? category.name : guild.name;
+        const iconUrl = category ? null : await this.uploadIcon(guild);
+        const initialState: object[] = [{
+            content: {
+                join_rule: "public",
+            },
+            state_key: "",
+            type: "m.room.join_rules",
+        }];
+        if (iconUrl) {
+            initialState.push({
+                content: {
+                    url: iconUrl,
+                },
+                state_key: "",
+                type: "m.room.avatar",
+            });
+        }
+        const room = await intent.createRoom({
+            createAsClient: true,
+            options: {
+                creation_content: {
+                    type: "m.space",
+                },
+                initial_state: initialState,
+                name,
+                room_alias_name: category ? undefined : `_discord_${guild.id}`,
+                visibility: this.config.room.defaultVisibility,
+            },
+        });
+        const space: IGuildSpace = {
+            categoryId: category ? category.id : GUILD_SPACE,
+            guildId: guild.id,
+            icon: category ? null : guild.icon,
+            name,
+            spaceId: room.room_id,
+        };
+        await this.store.upsertGuildSpace(space);
+        if (category) {
+            const guildSpace = (await this.getSpaces(guild.id)).get(GUILD_SPACE)!;
+            await this.addChild(guildSpace.spaceId, space.spaceId);
+        }
+        log.info(`Created space ${space.spaceId} for ${category ? `category ${category.id}` : `guild ${guild.id}`}`);
+        return space;
+    }
+
+    /**
+     * Adds the rooms of a channel to the space of its category, creating a room if there is none yet.
+     */
+    private async addChannel(channel: Discord.TextChannel, spaces: Map<string, IGuildSpace>) {
+        const parent = spaces.get(channel.parentID || GUILD_SPACE) || spaces.get(GUILD_SPACE)!;
+        let roomIds = await this.getChannelRoomIds(channel);
+        if (roomIds.length === 0) {
+            roomIds = [await this.createChannelRoom(channel)];
+        }
+        for (const roomId of roomIds) {
+            await this.addChild(parent.spaceId, roomId);
+        }
+    }
+
+    private async createChannelRoom(channel: Discord.TextChannel): Promise<string> {
+        const room = await this.bridge.getIntent().createRoom({
+            createAsClient: true,
+            options: {
+                initial_state: [{
+                    content: {
+                        join_rule: "public",
+                    },
+                    state_key: "",
+                    type: "m.room.join_rules",
+                }],
+                room_alias_name: `_discord_${channel.guild.id}_${channel.id}`,
+                visibility: this.config.room.defaultVisibility,
+            },
+        });
+        // The same entry a room created through an alias query would get, so it is synced like one.
+        const remote = new RemoteStoreRoom(`discord_${channel.guild.id}_${channel.id}`, {
+            discord_channel: channel.id,
+            discord_guild: channel.guild.id,
+            discord_type: "text",
+            update_icon: 1,
+            update_name: 1,
+            update_topic: 1,
+        });
+        await this.store.roomStore.linkRooms(new MatrixStoreRoom(room.room_id), remote);
+        await this.discord.ChannelSyncroniser.OnUpdate(channel);
+        log.info(`Created room ${room.room_id} for channel ${channel.id}`);
+        return room.room_id;
+    }
+
+    private async getChannelRoomIds(channel: Discord.GuildChannel): Promise<string[]> {
+        const entries = await this.store.roomStore.getEntriesByRemoteRoomData({
+            discord_channel: channel.id,
+            discord_guild: channel.guild.id,
+        });
+        return entries.filter((entry) => entry.matrix).map((entry) => entry.matrix!.getId());
+    }
+
+    private async addChild(spaceId: string, roomId: string) {
+        const client = this.bridge.getIntent().getClient();
+        try {
+            const existing = await client.getStateEvent(spaceId, "m.space.child", roomId);
+            if (existing && existing.via) {
+                return;
+            }
+        } catch (err) {
+            // Not a child yet.
+        }
+        const via = [this.config.bridge.domain];
+        await this.bridge.getIntent().sendStateEvent(spaceId, "m.space.child", roomId, {via});
+        try {
+            await this.bridge.getIntent().sendStateEvent(roomId, "m.space.parent", spaceId, {canonical: true, via});
+        } catch (err) {
+            // The bot may lack the power to do this in rooms it didn't create.
+            log.verbose(`Could not set the parent space of ${roomId}`, err);
+        }
+    }
+
+    private async removeChild(spaceId: string, roomId: string) {
+        await this.bridge.getIntent().sendStateEvent(spaceId, "m.space.child", roomId, {});
+        try {
+            await this.bridge.getIntent().sendStateEvent(roomId, "m.space.parent", spaceId, {});
+        } catch (err) {
+            log.verbose(`Could not unset the parent space of ${roomId}`, err);
+        }
+    }
+
+    private isVisible(channel: Discord.GuildChannel): boolean {
+        const permissions = channel.permissionsFor(channel.guild.me);
+        const viewChannel = Discord.Permissions.FLAGS.VIEW_CHANNEL as Discord.PermissionResolvable;
+        return Boolean(permissions && permissions.has(viewChannel));
+    }
+
+    private async uploadIcon(guild: Discord.Guild): Promise<string | null> {
+        if (!guild.icon) {
+            return null;
+        }
+        const animated = guild.icon.startsWith("a_");
+        const url = `https://cdn.discordapp.com/icons/${guild.id}/${guild.icon}.${animated ? "gif" : "png"}`;
+        return (await Util.UploadContentFromUrl(url, this.bridge.getIntent(), guild.icon)).mxcUrl;
+    }
+}
@@ -21,15 +21,56 @@ import { SQLite3 } from "./db/sqlite3";
 import { Log } from "./log";
 import { DiscordBridgeConfigDatabase } from "./config";
 import { Postgres } from "./db/postgres";
-import { IDatabaseConnector } from "./db/connector";
+import { IDatabaseConnector, ISqlRow } from "./db/connector";
 import { DbRoomStore } from "./db/roomstore";
 import { DbUserStore } from "./db/userstore";
+import { TokenCipher } from "./tokencipher";
 import {
     RoomStore, UserStore,
 } from "matrix-appservice-bridge";
 
 const log = new Log("DiscordStore");
-export const CURRENT_SCHEMA = 10;
+
+/**
+ * A request to bridge a room that is waiting for approval on Discord.
+ */
+export interface IBridgeRequest {
+    guildId: string;
+    channelId: string;
+    roomId: string;
+    requestor: string;
+    expiresAt: number;
+    // The message on Discord that can be reacted to.
+    messageId?: string;
+}
+
+/**
+ * An audit record of a Discord user approving or declining a bridge request.
+ */
+export interface IBridgeApproval {
+    guildId: string;
+    channelId: string;
+    roomId?: string;
+    requestor: string;
+    approverId: string;
+    approverName: string;
+    decision: "approved" | "declined";
+    decidedAt: number;
+}
+
+/**
+ * A Matrix space mirroring a Discord guild, or one of its categories.
+ * The space of the guild itself has an empty category ID.
+ */
+export interface IGuildSpace {
+    guildId: string;
+    categoryId: string;
+    spaceId: string;
+    // The name and icon hash last applied to the space.
+    name: string | null;
+    icon: string | null;
+}
+export const CURRENT_SCHEMA = 22;
 /**
  * Stores data for specific users and data not specific to rooms.
  */
@@ -38,6 +79,7 @@ export class DiscordStore {
     private config: DiscordBridgeConfigDatabase;
     private pRoomStore: DbRoomStore;
     private pUserStore: DbUserStore;
+    private tokenCipher: TokenCipher;
     constructor(configOrFile: DiscordBridgeConfigDatabase|string) {
         if (typeof(configOrFile) === "string") {
             this.config = new DiscordBridgeConfigDatabase();
@@ -45,6 +87,7 @@ export class DiscordStore {
         } else {
             this.config = configOrFile;
         }
+        this.tokenCipher = new TokenCipher(this.config);
     }
 
     get roomStore() {
@@ -163,7 +206,7 @@ export class DiscordStore {
                   `
                 , {
                     discordId,
-                    token,
+                    token: this.tokenCipher.encrypt(token),
                 }),
             ]);
         } catch (err) {
@@ -181,14 +224,14 @@ export class DiscordStore {
                     DELETE FROM user_id_discord_id WHERE discord_id = $id;
                     `
                 , {
-                    $id: discordId,
+                    id: discordId,
                 }),
                 this.db.Run(
                     `
                     DELETE FROM discord_id_token WHERE discord_id = $id;
                     `
                 , {
-                    $id: discordId,
+                    id: discordId,
                 }),
             ]);
         } catch (err) {
@@ -220,6 +263,22 @@ export class DiscordStore {
         }
     }
 
+    public async getPuppetedUserIds(): Promise<string[]> {
+        log.silly("SQL", "getPuppetedUserIds");
+        try {
+            const rows = await this.db.All(
+                `
+                SELECT DISTINCT user_id
+                FROM user_id_discord_id;
+                `,
+            );
+            return (rows || []).map((row) => row.user_id as string);
+        } catch (err)  {
+            log.error("Error getting puppeted users: ", err.Error);
+            throw err;
+        }
+    }
+
     public async getToken(discordId: string): Promise<string> {
         log.silly("SQL", "discord_id_token => ", discordId);
         try {
@@ -232,12 +291,420 @@ export class DiscordStore {
             , {
                 discordId,
             });
-            return row ? row.token as string : "";
+            return row ? this.tokenCipher.decrypt(row.token as string) : "";
         } catch (err) {
             log.error("Error getting discord ids ", err.Error);
             throw err;
         }
     }
+
+    /**
+     * Marks the token of a Discord account as no longer working, so it isn't used until the user logs in again.
+     */
+    public async markTokenInvalidated(discordId: string): Promise<void> {
+        log.silly("SQL", "markTokenInvalidated => ", discordId);
+        try {
+            await this.db.Run(
+                `
+                UPDATE discord_id_token SET invalidated_at = $invalidatedAt WHERE discord_id = $discordId;
+                `
+            , {
+                discordId,
+                invalidatedAt: Date.now(),
+            });
+        } catch (err) {
+            log.error("Error marking token as invalidated ", err);
+            throw err;
+        }
+    }
+
+    public async isTokenInvalidated(discordId: string): Promise<boolean> {
+        log.silly("SQL", "isTokenInvalidated => ", discordId);
+        try {
+            const row = await this.db.Get(
+                `
+                SELECT invalidated_at
+                FROM discord_id_token
+                WHERE discord_id = $discordId
+                `
+            , {
+                discordId,
+            });
+            return !!(row && row.invalidated_at);
+        } catch (err) {
+            log.error("Error checking token ", err.Error);
+            throw err;
+        }
+    }
+
+    /**
+     * Encrypts all stored tokens with the current token key, including tokens
+     * stored in plain text or with a previous key.
+     * @returns The number of tokens that were re-encrypted.
+     */
+    public async reencryptTokens(): Promise<number> {
+        log.silly("SQL", "reencryptTokens");
+        const rows = await this.db.All(`SELECT discord_id, token FROM discord_id_token`);
+        let count = 0;
+        for (const row of rows) {
+            const stored = row.token as string;
+            if (this.tokenCipher.isCurrent(stored)) {
+                continue;
+            }
+            try {
+                await this.db.Run(
+                    `
+                    UPDATE discord_id_token SET token = $token WHERE discord_id = $discordId;
+                    `
+                , {
+                    discordId: row.discord_id as string,
+                    token: this.tokenCipher.encrypt(this.tokenCipher.decrypt(stored)),
+                });
+                count++;
+            } catch (err) {
+                log.error(`Couldn't re-encrypt the token of ${row.discord_id}`, err);
+            }
+        }
+        return count;
+    }
+
+    /**
+     * Gets the Discord account a user prefers. An empty guildId stands for their default account.
+     */
+    public async getPreferredDiscordId(userId: string, guildId: string = ""): Promise<string|null> {
+        log.silly("SQL", "getPreferredDiscordId => ", userId, guildId);
+        try {
+            const row = await this.db.Get(
+                `
+                SELECT discord_id
+                FROM user_discord_preference
+                WHERE user_id = $userId AND guild_id = $guildId
+                `
+            , {
+                guildId,
+                userId,
+            });
+            return row ? row.discord_id as string : null;
+        } catch (err) {
+            log.error("Error getting preferred discord id ", err.Error);
+            throw err;
+        }
+    }
+
+    /**
+     * Gets all account preferences of a user as a map of guild ID to Discord ID.
+     * The default account is stored under an empty guild ID.
+     */
+    public async getDiscordIdPreferences(userId: string): Promise<Map<string, string>> {
+        log.silly("SQL", "getDiscordIdPreferences => ", userId);
+        try {
+            const rows = await this.db.All(
+                `
+                SELECT guild_id, discord_id
+                FROM user_discord_preference
+                WHERE user_id = $userId;
+                `
+            , {
+                userId,
+            });
+            const preferences = new Map<string, string>();
+            for (const row of rows || []) {
+                preferences.set(row.guild_id as string, row.discord_id as string);
+            }
+            return preferences;
+        } catch (err) {
+            log.error("Error getting discord id preferences ", err.Error);
+            throw err;
+        }
+    }
+
+    public async setPreferredDiscordId(userId: string, discordId: string, guildId: string = ""): Promise<void> {
+        log.silly("SQL", "setPreferredDiscordId => ", userId, discordId, guildId);
+        try {
+            await this.db.Run(
+                `
+                DELETE FROM user_discord_preference WHERE user_id = $userId AND guild_id = $guildId;
+                `
+            , {
+                guildId,
+                userId,
+            });
+            await this.db.Run(
+                `
+                INSERT INTO user_discord_preference (user_id,guild_id,discord_id) VALUES ($userId,$guildId,$discordId);
+                `
+            , {
+                discordId,
+                guildId,
+                userId,
+            });
+        } catch (err) {
+            log.error("Error storing preferred discord id ", err);
+            throw err;
+        }
+    }
+
+    /**
+     * Removes every preference of a user that points at the given Discord account.
+     */
+    public async deletePreferredDiscordId(userId: string, discordId: string): Promise<void> {
+        log.silly("SQL", "deletePreferredDiscordId => ", userId, discordId);
+        try {
+            await this.db.Run(
+                `
+                DELETE FROM user_discord_preference WHERE user_id = $userId AND discord_id = $discordId;
+                `
+            , {
+                discordId,
+                userId,
+            });
+        } catch (err) {
+            log.error("Error deleting preferred discord id ", err);
+            throw err;
+        }
+    }
+
+    /**
+     * Stores a pending bridge request, replacing any earlier request for the same channel.
+     */
+    public async addBridgeRequest(request: IBridgeRequest): Promise<void> {
+        log.silly("SQL", "addBridgeRequest => ", request.guildId, request.channelId, request.roomId);
+        try {
+            await this.db.Run(
+                `
+                DELETE FROM bridge_requests WHERE guild_id = $guildId AND channel_id = $channelId;
+                `
+            , {
+                channelId: request.channelId,
+                guildId: request.guildId,
+            });
+            await this.db.Run(
+                `
+                INSERT INTO bridge_requests (guild_id,channel_id,room_id,requestor,expires_at,message_id)
+                VALUES ($guildId,$channelId,$roomId,$requestor,$expiresAt,$messageId);
+                `
+            , {
+                channelId: request.channelId,
+                expiresAt: request.expiresAt,
+                guildId: request.guildId,
+                messageId: request.messageId || null,
+                requestor: request.requestor,
+                roomId: request.roomId,
+            });
+        } catch (err) {
+            log.error("Error storing bridge request ", err);
+            throw err;
+        }
+    }
+
+    public async getBridgeRequests(): Promise<IBridgeRequest[]> {
+        log.silly("SQL", "getBridgeRequests");
+        try {
+            const rows = await this.db.All(
+                `
+                SELECT guild_id, channel_id, room_id, requestor, expires_at, message_id
+                FROM bridge_requests;
+                `,
+            );
+            return (rows || []).map((row) => ({
+                channelId: row.channel_id as string,
+                expiresAt: Number(row.expires_at),
+                guildId: row.guild_id as string,
+                messageId: row.message_id as string || undefined,
+                requestor: row.requestor as string,
+                roomId: row.room_id as string,
+            }));
+        } catch (err) {
+            log.error("Error getting bridge requests ", err.Error);
+            throw err;
+        }
+    }
+
+    public async deleteBridgeRequest(guildId: string, channelId: string): Promise<void> {
+        log.silly("SQL", "deleteBridgeRequest => ", guildId, channelId);
+        try {
+            await this.db.Run(
+                `
+                DELETE FROM bridge_requests WHERE guild_id = $guildId AND channel_id = $channelId;
+                `
+            , {
+                channelId,
+                guildId,
+            });
+        } catch (err) {
+            log.error("Error deleting bridge request ", err);
+            throw err;
+        }
+    }
+
+    public async addBridgeApproval(approval: IBridgeApproval): Promise<void> {
+        log.silly("SQL", "addBridgeApproval => ", approval.guildId, approval.channelId, approval.approverId);
+        try {
+            await this.db.Run(
+                `
+                INSERT INTO bridge_approvals
+                (guild_id,channel_id,room_id,requestor,approver_id,approver_name,decision,decided_at)
+                VALUES ($guildId,$channelId,$roomId,$requestor,$approverId,$approverName,$decision,$decidedAt);
+                `
+            , {
+                approverId: approval.approverId,
+                approverName: approval.approverName,
+                channelId: approval.channelId,
+                decidedAt: approval.decidedAt,
+                decision: approval.decision,
+                guildId: approval.guildId,
+                requestor: approval.requestor,
+                roomId: approval.roomId || null,
+            });
+        } catch (err) {
+            log.error("Error storing bridge approval ", err);
+            throw err;
+        }
+    }
+
+    /**
+     * Gets the audit records of a channel, oldest first.
+     */
+    public async getBridgeApprovals(guildId: string, channelId: string): Promise<IBridgeApproval[]> {
+        log.silly("SQL", "getBridgeApprovals => ", guildId, channelId);
+        try {
+            const rows = await this.db.All(
+                `
+                SELECT *
+                FROM bridge_approvals
+                WHERE guild_id = $guildId AND channel_id = $channelId
+                ORDER BY decided_at;
+                `
+            , {
+                channelId,
+                guildId,
+            });
+            return (rows || []).map((row) => this.bridgeApprovalFromRow(row));
+        } catch (err) {
+            log.error("Error getting bridge approvals ", err.Error);
+            throw err;
+        }
+    }
+
+    /**
+     * Gets the audit records of the requests to bridge a room, oldest first.
+     */
+    public async getBridgeApprovalsOfRoom(roomId: string): Promise<IBridgeApproval[]> {
+        log.silly("SQL", "getBridgeApprovalsOfRoom => ", roomId);
+        try {
+            const rows = await this.db.All(
+                `
+                SELECT *
+                FROM bridge_approvals
+                WHERE room_id = $roomId
+                ORDER BY decided_at;
+                `
+            , {
+                roomId,
+            });
+            return (rows || []).map((row) => this.bridgeApprovalFromRow(row));
+        } catch (err) {
+            log.error("Error getting bridge approvals ", err.Error);
+            throw err;
+        }
+    }
+
+    public async getGuildSpaces(guildId: string): Promise<IGuildSpace[]> {
+        log.silly("SQL", "getGuildSpaces => ", guildId);
+        try {
+            const rows = await this.db.All(
+                `
+                SELECT guild_id, category_id, space_id, name, icon
+                FROM guild_spaces
+                WHERE guild_id = $guildId;
+                `
+            , {
+                guildId,
+            });
+            return (rows || []).map((row) => ({
+                categoryId: row.category_id as string,
+                guildId: row.guild_id as string,
+                icon: row.icon as string | null,
+                name: row.name as string | null,
+                spaceId: row.space_id as string,
+            }));
+        } catch (err) {
+            log.error("Error getting guild spaces ", err.Error);
+            throw err;
+        }
+    }
+
+    public async upsertGuildSpace(space: IGuildSpace): Promise<void> {
+        log.silly("SQL", "upsertGuildSpace => ", space.guildId, space.categoryId, space.spaceId);
+        try {
+            await this.db.Run(
+                `
+                DELETE FROM guild_spaces WHERE guild_id = $guildId AND category_id = $categoryId;
+                `
+            , {
+                categoryId: space.categoryId,
+                guildId: space.guildId,
+            });
+            await this.db.Run(
+                `
+                INSERT INTO guild_spaces (guild_id,category_id,space_id,name,icon)
+                VALUES ($guildId,$categoryId,$spaceId,$name,$icon);
+                `
+            , {
+                categoryId: space.categoryId,
+                guildId: space.guildId,
+                icon: space.icon,
+                name: space.name,
+                spaceId: space.spaceId,
+            });
+        } catch (err) {
+            log.error("Error storing guild space ", err);
+            throw err;
+        }
+    }
+
+    public async deleteGuildSpace(guildId: string, categoryId: string): Promise<void> {
+        log.silly("SQL", "deleteGuildSpace => ", guildId, categoryId);
+        try {
+            await this.db.Run(
+                `
+                DELETE FROM guild_spaces WHERE guild_id = $guildId AND category_id = $categoryId;
+                `
+            , {
+                categoryId,
+                guildId,
+            });
+        } catch (err) {
+            log.error("Error deleting guild space ", err);
+            throw err;
+        }
+    }
+
+    /**
+     * Gets the ID of the newest Discord message bridged in either direction in a channel.
+     */
+    public async getLastBridgedMessageId(channelId: string): Promise<string|null> {
+        log.silly("SQL", "getLastBridgedMessageId => ", channelId);
+        try {
+            // Snowflakes are stored as text, so longer IDs are the newer ones.
+            const row = await this.db.Get(
+                `
+                SELECT msg_id
+                FROM discord_msg_store
+                WHERE channel_id = $channelId
+                ORDER BY LENGTH(msg_id) DESC, msg_id DESC
+                LIMIT 1;
+                `
+            , {
+                channelId,
+            });
+            return row ? row.msg_id as string : null;
+        } catch (err) {
+            log.error("Error getting the last bridged message ", err);
+            throw err;
+        }
+    }
+
     // tslint:disable-next-line no-any
     public async Get<T extends IDbData>(dbType: {new(): T; }, params: any): Promise<T|null> {
         const dType = new dbType();
@@ -306,4 +773,17 @@ export class DiscordStore {
             throw new Error("Couldn't open database. The appservice won't be able to continue.");
         }
     }
+
+    private bridgeApprovalFromRow(row: ISqlRow): IBridgeApproval {
+        return {
+            approverId: row.approver_id as string,
+            approverName: row.approver_name as string,
+            channelId: row.channel_id as string,
+            decidedAt: Number(row.decided_at),
+            decision: row.decision as "approved" | "declined",
+            guildId: row.guild_id as string,
+            requestor: row.requestor as string,
+            roomId: row.room_id as string || undefined,
+        };
+    }
 }
@@ -0,0 +1,121 @@
+/*
+Copyright 2019 matrix-appservice-discord
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import * as crypto from "crypto";
+import { DiscordBridgeConfigDatabase } from "./config";
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const DEFAULT_KEY_ID = "1";
+const PREFIX = "enc";
+const SEPARATOR = ":";
+
+/**
+ * Encrypts the Discord tokens of puppeted users before they are stored.
+ * Encrypted tokens look like `enc:<keyId>:<iv>:<authTag>:<ciphertext>`, so tokens
+ * encrypted with an older key can still be decrypted after the key is rotated.
+ */
+export class TokenCipher {
+    private keys: Map<string, Buffer> = new Map();
+    private keyId: string | null = null;
+
+    constructor(config: DiscordBridgeConfigDatabase) {
+        for (const entry of config.previousTokenKeys || []) {
+            const index = entry.indexOf(SEPARATOR);
+            if (index === -1) {
+                throw new Error("Previous token keys must be given as \"keyId:key\"");
+            }
+            this.addKey(entry.substring(0, index), entry.substring(index + 1));
+        }
+        if (config.tokenKey) {
+            this.keyId = config.tokenKeyId || DEFAULT_KEY_ID;
+            this.addKey(this.keyId, config.tokenKey);
+        }
+    }
+
+    /**
+     * Whether new tokens are encrypted.
+     */
+    public get isEnabled(): boolean {
+        return this.keyId !== null;
+    }
+
+    public isEncrypted(stored: string): boolean {
+        return stored.startsWith(PREFIX + SEPARATOR);
+    }
+
+    /**
+     * Whether a stored token is stored the way new tokens would be, so it does not need re-encrypting.
+     */
+    public isCurrent(stored: string): boolean {
+        if (!this.isEncrypted(stored)) {
+            return !this.isEnabled;
+        }
+        return stored.split(SEPARATOR)[1] === this.keyId;
+    }
+
+    /**
+     * Encrypts a token with the current key. Without a key, the token is returned as is.
+     */
+    public encrypt(token: string): string {
+        if (this.keyId === null) {
+            return token;
+        }
+        const iv = crypto.randomBytes(IV_LENGTH);
+        const cipher = crypto.createCipheriv(ALGORITHM, this.keys.get(this.keyId)!, iv);
+        const ciphertext = Buffer.concat([cipher.update(token, "utf8"), cipher.final()]);
+        return [
+            PREFIX,
+            this.keyId,
+            iv.toString("base64"),
+            cipher.getAuthTag().toString("base64"),
+            ciphertext.toString("base64"),
+        ].join(SEPARATOR);
+    }
+
+    /**
+     * Decrypts a stored token. Tokens stored before encryption was enabled are returned as is.
+     * @throws If the token was encrypted with an unknown key or has been tampered with.
+     */
+    public decrypt(stored: string): string {
+        if (!this.isEncrypted(stored)) {
+            return stored;
+        }
+        const [, keyId, iv, authTag, ciphertext] = stored.split(SEPARATOR);
+        const key = this.keys.get(keyId);
+        if (!key) {
+            throw new Error(`Token was encrypted with the unknown key "${keyId}"`);
+        }
+        const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, "base64"));
+        decipher.setAuthTag(Buffer.from(authTag, "base64"));
+        return Buffer.concat([
+            decipher.update(Buffer.from(ciphertext, "base64")),
+            decipher.final(),
+        ]).toString("utf8");
+    }
+
+    private addKey(keyId: string, key: string) {
+        if (!keyId || keyId.includes(SEPARATOR)) {
+            throw new Error(`Token key ID "${keyId}" must not be empty or contain "${SEPARATOR}"`);
+        }
+        const buffer = Buffer.from(key, "base64");
+        if (buffer.length !== KEY_LENGTH) {
+            throw new Error(`Token key "${keyId}" must be ${KEY_LENGTH} bytes encoded as base64`);
+        }
+        this.keys.set(keyId, buffer);
+    }
+}
@@ -25,6 +25,11 @@ import { Client as MatrixClient } from "matrix-js-sdk";
 import { IMatrixEvent } from "./matrixtypes";
 
 const HTTP_OK = 200;
+const DISCORD_MESSAGE_LENGTH = 2000;
+const CODE_FENCE = "```";
+const SPLIT_MIN_RATIO = 0.5;
+const HIGH_SURROGATE_MIN = 0xD800;
+const HIGH_SURROGATE_MAX = 0xDBFF;
 
 import { Log } from "./log";
 const log = new Log("Util");
@@ -415,6 +420,104 @@ export class Util {
         }
         return haveLevel >= requiredLevel;
     }
+
+    /**
+     * Splits a message into parts of at most maxLength characters, preferring to split
+     * on paragraphs, then lines, then words. Code blocks that get split are closed at the
+     * end of a part and reopened in the next one. An empty message is a single empty part,
+     * so that attachments without any text are still sent.
+     */
+    public static SplitMessage(text: string, maxLength: number = DISCORD_MESSAGE_LENGTH): string[] {
+        if (!text) {
+            return [""];
+        }
+        const parts: string[] = [];
+        let fence = "";
+        let rest = text;
+        while (rest.length > 0) {
+            const prefix = fence ? `${fence}\n` : "";
+            if (prefix.length + rest.length <= maxLength) {
+                parts.push(prefix + rest);
+                break;
+            }
+            // Always leave room to close a code block at the end of the part.
+            const [index, skip] = Util.FindSplitPoint(rest, maxLength - prefix.length - CODE_FENCE.length - 1);
+            let part = prefix + rest.substring(0, index);
+            rest = rest.substring(index + skip);
+            fence = Util.GetOpenCodeFence(part);
+            if (fence) {
+                part += `\n${CODE_FENCE}`;
+            }
+            parts.push(part);
+        }
+        return parts;
+    }
+
+    /**
+     * Returns where to split the text, and how many separator characters to drop there.
+     */
+    private static FindSplitPoint(text: string, maxLength: number): [number, number] {
+        const minLength = maxLength * SPLIT_MIN_RATIO;
+        const paragraph = text.lastIndexOf("\n\n", maxLength);
+        if (paragraph >= minLength) {
+            return [paragraph, "\n\n".length];
+        }
+        const line = text.lastIndexOf("\n", maxLength);
+        if (line >= minLength) {
+            return [line, 1];
+        }
+        for (let i = text.lastIndexOf(" ", maxLength); i > 0; i = text.lastIndexOf(" ", i - 1)) {
+            if (!Util.IsInMarkdownSpan(text.substring(text.lastIndexOf("\n", i) + 1, i))) {
+                return [i, 1];
+            }
+        }
+        if (line > 0) {
+            return [line, 1];
+        }
+        const space = text.lastIndexOf(" ", maxLength);
+        if (space > 0) {
+            return [space, 1];
+        }
+        // Nowhere nice to split, but at least don't split a surrogate pair.
+        const code = text.charCodeAt(maxLength - 1);
+        return [code >= HIGH_SURROGATE_MIN && code <= HIGH_SURROGATE_MAX ? maxLength - 1 : maxLength, 0];
+    }
+
+    /**
+     * Checks if the end of a line is inside inline code or a bold, underline, strikethrough or spoiler span.
+     */
+    private static IsInMarkdownSpan(line: string): boolean {
+        const isOpen = (str: string, marker: string) => {
+            let open = false;
+            for (let i = str.indexOf(marker); i !== -1; i = str.indexOf(marker, i + marker.length)) {
+                open = !open;
+            }
+            return open;
+        };
+        if (isOpen(line, "`")) {
+            return true;
+        }
+        const withoutCode = line.replace(/`[^`]*`/g, "");
+        return ["**", "__", "~~", "||"].some((marker) => isOpen(withoutCode, marker));
+    }
+
+    /**
+     * Returns the opening line of a code block left open at the end of the text, if any.
+     */
+    private static GetOpenCodeFence(text: string): string {
+        let fence = "";
+        for (const line of text.split("\n").map((l) => l.trim())) {
+            if (!line.startsWith(CODE_FENCE)) {
+                continue;
+            }
+            if (fence) {
+                fence = "";
+            } else if (line.length === CODE_FENCE.length || !line.endsWith(CODE_FENCE)) {
+                fence = line.split(" ")[0];
+            }
+        }
+        return fence;
+    }
 }
 
 interface IUploadResult {
@@ -61,6 +61,9 @@ export class MockDiscordClient {
     }
 
     public async login(token: string): Promise<void> {
+        if (token === "revokeme") {
+            throw new Error("Incorrect login details were provided.");
+        }
         if (token !== "passme") {
             throw new Error("Mock Discord Client only logins with the token 'passme'");
         }
@@ -32,5 +32,7 @@ export class DiscordClientFactory {
         return this.botClient;
     }
 
+    public async loginAllPuppets(): Promise<void> { }
+
     public bindMetricsToChannel() {}
 }
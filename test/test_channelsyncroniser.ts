@@ -41,11 +41,13 @@ let ROOM_AVATAR_SET: any = null;
 let STATE_EVENT_SENT: any = false;
 let ALIAS_DELETED: any = false;
 let ROOM_DIRECTORY_VISIBILITY: any = null;
+let DISCORD_CHANNEL_SET: any = null;
 
 const ChannelSync = (Proxyquire("../src/channelsyncroniser", {
     "./util": {
         Util: {
             ApplyPatternString: Util.ApplyPatternString,
+            CheckMatrixPermission: async (client, userId) => userId !== "@weak:localhost",
             UploadContentFromUrl: async () => {
                 UTIL_UPLOADED_AVATAR = true;
                 return {mxcUrl: "avatarset"};
@@ -163,8 +165,14 @@ function CreateChannelSync(remoteChannels: any[] = []): ChannelSyncroniser {
             REMOTECHANNEL_SET = true;
         },
     };
+    DISCORD_CHANNEL_SET = null;
     const discordbot: any = {
-
+        LookupRoom: async (guildId, channelId) => {
+            const channel = new MockChannel(channelId, new MockGuild(guildId, [], "someGuild"), "text", "old-name");
+            (channel as any).setName = async (name) => { DISCORD_CHANNEL_SET = {name}; };
+            (channel as any).setTopic = async (topic) => { DISCORD_CHANNEL_SET = {topic}; };
+            return {channel, botUser: true};
+        },
     };
     const config = new DiscordBridgeConfig();
     config.bridge.domain = "localhost";
@@ -531,6 +539,55 @@ describe("ChannelSyncroniser", () => {
             expect(state.mxChannels[0].removeIcon).is.true;
         });
     });
+    describe("OnMatrixStateUpdate", () => {
+        const testStore = () => [
+            new Entry({
+                id: "1",
+                matrix_id: "!1:localhost",
+                remote: {
+                    discord_channel: "456",
+                    discord_guild: "123",
+                    plumbed: true,
+                    update_discord_name: true,
+                    update_discord_topic: false,
+                },
+                remote_id: "111",
+            }),
+        ];
+        it("will rename the channel following Discord's rules", async () => {
+            const store = testStore();
+            const channelSync = CreateChannelSync(store);
+            await channelSync.OnMatrixStateUpdate({
+                content: { name: "My  Fancy Room!" },
+                room_id: "!1:localhost",
+                sender: "@user:localhost",
+                type: "m.room.name",
+            } as any);
+            expect(DISCORD_CHANNEL_SET).to.deep.equal({name: "my-fancy-room"});
+            expect(store[0].remote.get("discord_name")).equals("[Discord] someGuild #my-fancy-room");
+            expect(REMOTECHANNEL_SET).is.true;
+        });
+        it("won't update the topic if the room didn't opt in", async () => {
+            const channelSync = CreateChannelSync(testStore());
+            await channelSync.OnMatrixStateUpdate({
+                content: { topic: "New topic" },
+                room_id: "!1:localhost",
+                sender: "@user:localhost",
+                type: "m.room.topic",
+            } as any);
+            expect(DISCORD_CHANNEL_SET).to.be.null;
+        });
+        it("won't update the channel if the sender isn't powerful enough", async () => {
+            const channelSync = CreateChannelSync(testStore());
+            await channelSync.OnMatrixStateUpdate({
+                content: { name: "Hijacked" },
+                room_id: "!1:localhost",
+                sender: "@weak:localhost",
+                type: "m.room.name",
+            } as any);
+            expect(DISCORD_CHANNEL_SET).to.be.null;
+        });
+    });
     describe("OnUpdate", () => {
         it("Will update a room", async () => {
             const guild = new MockGuild("654321", [], "newGuild");
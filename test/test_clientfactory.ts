@@ -28,12 +28,31 @@ const DiscordClientFactory = Proxyquire("../src/clientfactory", {
     "discord.js": { Client: require("./mocks/discordclient").MockDiscordClient },
 }).DiscordClientFactory;
 
+const INVALID_TOKEN_CLOSE_CODE = 4004;
+
+let TOKEN_DISCORD_ID: string | null = null;
+let INVALIDATED_DISCORD_ID: string | null = null;
+
 const STORE = {
+    getPreferredDiscordId: async (userid: string, guildid: string = "") => {
+        if (userid !== "@multi:localhost") {
+            return null;
+        }
+        if (guildid === "111") {
+            return "12345";
+        } else if (guildid === "") {
+            return "67890";
+        }
+        return null;
+    },
     getToken: async (discordid: string) => {
-        if (discordid === "12345") {
+        TOKEN_DISCORD_ID = discordid;
+        if (discordid === "12345" || discordid === "67890") {
             return "passme";
         } else if (discordid === "1234555") {
             return "failme";
+        } else if (discordid === "7777") {
+            return "revokeme";
         }
         throw new Error("Token not found");
     },
@@ -42,9 +61,19 @@ const STORE = {
             return ["12345"];
         } else if (userid === "@invalid:localhost") {
             return ["1234555"];
+        } else if (userid === "@multi:localhost") {
+            return ["12345", "67890"];
+        } else if (userid === "@revoked:localhost") {
+            return ["7777"];
+        } else if (userid === "@invalidated:localhost") {
+            return ["99999"];
         }
         return [];
     },
+    isTokenInvalidated: async (discordid: string) => discordid === "99999",
+    markTokenInvalidated: async (discordid: string) => {
+        INVALIDATED_DISCORD_ID = discordid;
+    },
 };
 
 describe("ClientFactory", () => {
@@ -132,5 +161,82 @@ describe("ClientFactory", () => {
             expect(client).to.equal(cf.botClient);
             expect(cf.clients.has("@invalid:localhost")).to.be.false;
         });
+        it("should use the preferred account of a user", async () => {
+            const cf = new DiscordClientFactory(STORE);
+            await cf.getClient("@multi:localhost");
+            expect(TOKEN_DISCORD_ID).to.equal("67890");
+            expect(cf.clients.has("@multi:localhost")).to.be.true;
+        });
+        it("should use the account a user prefers in a guild", async () => {
+            const cf = new DiscordClientFactory(STORE);
+            await cf.getClient("@multi:localhost", "111");
+            expect(TOKEN_DISCORD_ID).to.equal("12345");
+            expect(cf.clients.has("@multi:localhost")).to.be.false;
+            expect(cf.accountClients.get("@multi:localhost").has("12345")).to.be.true;
+        });
+        it("should use the default account in other guilds", async () => {
+            const cf = new DiscordClientFactory(STORE);
+            await cf.getClient("@multi:localhost", "222");
+            expect(TOKEN_DISCORD_ID).to.equal("67890");
+            expect(cf.clients.has("@multi:localhost")).to.be.true;
+        });
+    });
+    describe("invalidated tokens", () => {
+        beforeEach(() => {
+            TOKEN_DISCORD_ID = null;
+            INVALIDATED_DISCORD_ID = null;
+        });
+        it("should not log in with a token marked as invalidated", async () => {
+            const cf = new DiscordClientFactory(STORE);
+            cf.botClient = 1;
+            const client = await cf.getClient("@invalidated:localhost");
+            expect(client).to.equal(cf.botClient);
+            expect(TOKEN_DISCORD_ID).to.be.null;
+        });
+        it("should invalidate a token that is rejected on login", async () => {
+            let notified: string[] = [];
+            const cf = new DiscordClientFactory(STORE, undefined, async (userId, discordId) => {
+                notified = [userId, discordId];
+            });
+            cf.botClient = 1;
+            const client = await cf.getClient("@revoked:localhost");
+            expect(client).to.equal(cf.botClient);
+            expect(INVALIDATED_DISCORD_ID).to.equal("7777");
+            expect(notified).to.deep.equal(["@revoked:localhost", "7777"]);
+        });
+        it("should not invalidate a token if logging in fails otherwise", async () => {
+            const cf = new DiscordClientFactory(STORE);
+            cf.botClient = 1;
+            await cf.getClient("@invalid:localhost");
+            expect(INVALIDATED_DISCORD_ID).to.be.null;
+        });
+        it("should evict and invalidate a client the gateway disconnects", async () => {
+            let notified = false;
+            const cf = new DiscordClientFactory(STORE, undefined, async () => {
+                notified = true;
+            });
+            const client = await cf.getClient("@valid:localhost");
+            await client.emit("disconnect", {code: INVALID_TOKEN_CLOSE_CODE});
+            expect(cf.clients.has("@valid:localhost")).to.be.false;
+            expect(INVALIDATED_DISCORD_ID).to.equal("12345");
+            expect(notified).to.be.true;
+        });
+        it("should only evict a client that disconnects for other reasons", async () => {
+            const cf = new DiscordClientFactory(STORE);
+            const client = await cf.getClient("@valid:localhost");
+            await client.emit("disconnect", {code: 1000});
+            expect(cf.clients.has("@valid:localhost")).to.be.false;
+            expect(INVALIDATED_DISCORD_ID).to.be.null;
+        });
+    });
+    describe("getDefaultDiscordId", () => {
+        it("should fall back to the first account", async () => {
+            const cf = new DiscordClientFactory(STORE);
+            expect(await cf.getDefaultDiscordId("@valid:localhost")).to.equal("12345");
+        });
+        it("should return null without accounts", async () => {
+            const cf = new DiscordClientFactory(STORE);
+            expect(await cf.getDefaultDiscordId("@user:localhost")).to.be.null;
+        });
     });
 });
@@ -36,6 +36,15 @@ const assert = Chai.assert;
 // const should = Chai.should as any;
 
 const mockBridge = {
+    getIntent: () => {
+        return {
+            getClient: () => {
+                return {
+                    redactEvent: async (roomId: string, eventId: string) => { },
+                };
+            },
+        };
+    },
     getIntentFromLocalpart: (localpart: string) => {
         return {
             sendTyping: (room: string, isTyping: boolean) => {
@@ -68,6 +77,7 @@ const modDiscordBot = Proxyquire("../src/bot", {
         Util: {
             AsyncForEach: Util.AsyncForEach,
             DelayedPromise: Util.DelayedPromise,
+            SplitMessage: Util.SplitMessage,
             UploadContentFromUrl: async () => {
                 return {mxcUrl: "uploaded"};
             },
@@ -137,11 +147,13 @@ describe("DiscordBot", () => {
         let HANDLE_COMMAND = false;
         let ATTACHMENT = {} as any;
         let MSGTYPE = "";
+        let STICKER = {} as any;
         function getDiscordBot() {
             SENT_MESSAGE = false;
             HANDLE_COMMAND = false;
             ATTACHMENT = {};
             MSGTYPE = "";
+            STICKER = {};
             const discord = new modDiscordBot.DiscordBot(
                 "",
                 config,
@@ -150,6 +162,14 @@ describe("DiscordBot", () => {
             );
             discord.bot = { user: { id: "654" } };
             discord.GetIntentFromDiscordMember = (_) => {return {
+                sendEvent: async (room, type, content) => {
+                    if (type === "m.sticker") {
+                        STICKER = content;
+                    }
+                    return {
+                        event_id: "$sticker:localhost",
+                    };
+                },
                 sendMessage: async (room, msg) => {
                     SENT_MESSAGE = true;
                     if (msg.info) {
@@ -171,6 +191,7 @@ describe("DiscordBot", () => {
                 Process: async (msg) => { HANDLE_COMMAND = true; },
             };
             discord.store = {
+                Get: async (dbType) => new dbType(),
                 Insert: async (_) => { },
             };
             return discord;
@@ -271,6 +292,34 @@ describe("DiscordBot", () => {
             Chai.assert.equal(MSGTYPE, "m.file");
             Chai.assert.equal(ATTACHMENT.mimetype, "application/zip");
         });
+        it("sends stickers as m.sticker events", async () => {
+            const STICKER_SIZE = 320;
+            discordBot = getDiscordBot();
+            const channel = new Discord.TextChannel({} as any, {} as any);
+            const msg = new MockMessage(channel) as any;
+            msg.id = "1234";
+            discordBot.messageStickers.set("1234", [{format_type: 1, id: "5678", name: "foxwave"}]);
+            await discordBot.OnMessage(msg);
+            Chai.assert.equal(STICKER.body, "foxwave");
+            Chai.assert.equal(STICKER.url, "uploaded");
+            Chai.assert.equal(STICKER.info.mimetype, "image/png");
+            Chai.assert.equal(STICKER.info.w, STICKER_SIZE);
+            Chai.assert.equal(STICKER.info.h, STICKER_SIZE);
+        });
+        it("reuses cached stickers", async () => {
+            discordBot = getDiscordBot();
+            discordBot.store.Get = async () => ({
+                FormatType: 4,
+                MimeType: "image/gif",
+                MxcUrl: "mxc://localhost/foxwave",
+                Name: "foxwave",
+                Result: true,
+                Size: 42,
+            });
+            discordBot.store.Insert = async () => { throw new Error("Should not insert a cached sticker"); };
+            const sticker = await discordBot.GetSticker({format_type: 4, id: "5678", name: "foxwave"});
+            Chai.assert.equal(sticker.MxcUrl, "mxc://localhost/foxwave");
+        });
     });
     describe("OnMessageUpdate()", () => {
         it("should return on an unchanged message", async () => {
@@ -300,6 +349,31 @@ describe("DiscordBot", () => {
             await discordBot.OnMessageUpdate(oldMsg, newMsg);
             Chai.assert.equal(checkMsgSent, false);
         });
+        it("should forget our own edits of embeds", async () => {
+            discordBot = new modDiscordBot.DiscordBot(
+                "",
+                config,
+                mockBridge,
+                {},
+            );
+
+            const guild: any = new MockGuild("123", []);
+            guild._mockAddMember(new MockMember("12345", "TestUsername"));
+            const channel = new Discord.TextChannel(guild, {} as any);
+            const oldMsg = new MockMessage(channel) as any;
+            const newMsg = new MockMessage(channel) as any;
+            oldMsg.embeds = [];
+            newMsg.embeds = [];
+            newMsg.id = "999";
+
+            // The bot edits the embed, so the content stays empty.
+            oldMsg.content = "";
+            newMsg.content = "";
+            discordBot.sentEdits.push("999");
+
+            await discordBot.OnMessageUpdate(oldMsg, newMsg);
+            expect(discordBot.sentEdits).to.be.empty;
+        });
         it("should send a matrix message on an edited discord message", async () => {
             discordBot = new modDiscordBot.DiscordBot(
                 "",
@@ -335,9 +409,10 @@ describe("DiscordBot", () => {
                 mockBridge,
                 {},
             );
+            let rows = 1;
             discordBot.store.Get = (a, b) => { return {
                 MatrixId: "$event:localhost;!room:localhost",
-                Next: () => true,
+                Next: () => rows-- > 0,
                 Result: true,
             }; };
             discordBot.lastEventIds["!room:localhost"] = "$event:localhost";
@@ -363,6 +438,143 @@ describe("DiscordBot", () => {
             Chai.assert.equal(deletedMessage, true);
             Chai.assert.equal(sentMessage, true);
         });
+        it("should send an m.replace edit for an older bridged message", async () => {
+            discordBot = new modDiscordBot.DiscordBot(
+                "",
+                config,
+                mockBridge,
+                {},
+            );
+            let rows = 1;
+            discordBot.store.Get = (a, b) => { return {
+                MatrixId: "$event:localhost;!room:localhost",
+                Next: () => rows-- > 0,
+                Result: true,
+            }; };
+            discordBot.lastEventIds["!room:localhost"] = "$newer:localhost";
+            let sentContent: any = null;
+            discordBot.GetIntentFromDiscordMember = (_) => { return {
+                sendMessage: async (room, content) => {
+                    sentContent = content;
+                    return { event_id: "$edit:localhost" };
+                },
+            }; };
+
+            const guild: any = new MockGuild("123", []);
+            guild._mockAddMember(new MockMember("12345", "TestUsername"));
+            const channel = new Discord.TextChannel(guild, {} as any);
+            const oldMsg = new MockMessage(channel) as any;
+            const newMsg = new MockMessage(channel) as any;
+            oldMsg.embeds = [];
+            newMsg.embeds = [];
+            oldMsg.content = "a";
+            newMsg.content = "b";
+
+            await discordBot.OnMessageUpdate(oldMsg, newMsg);
+            expect(sentContent["m.relates_to"]).to.deep.equal({
+                event_id: "$event:localhost",
+                rel_type: "m.replace",
+            });
+            expect(sentContent["m.new_content"].body).to.equal("b");
+            expect(sentContent.body).to.equal("*edit:* ~~a~~ -> b");
+        });
+    });
+    describe("DeleteDiscordMessage()", () => {
+        it("should redact every mapped event and clean up the store", async () => {
+            discordBot = new modDiscordBot.DiscordBot(
+                "",
+                config,
+                mockBridge,
+                {},
+            );
+            discordBot.bot = { user: { id: "654" } };
+            const ids = ["$text:localhost;!room:localhost", "$image:localhost;!room:localhost"];
+            const storeEvent = {
+                MatrixId: "",
+                Next: () => {
+                    if (ids.length === 0) {
+                        return false;
+                    }
+                    storeEvent.MatrixId = ids.shift()!;
+                    return true;
+                },
+                Result: true,
+            };
+            const deleted: string[] = [];
+            discordBot.store.Get = async (a, b) => storeEvent;
+            discordBot.store.Delete = async (evt) => { deleted.push(evt.MatrixId); };
+            const redacted: string[] = [];
+            discordBot.GetIntentFromDiscordMember = (_) => { return {
+                getClient: () => { return {
+                    redactEvent: async (roomId, eventId) => { redacted.push(eventId); },
+                }; },
+            }; };
+            const channel = new Discord.TextChannel({} as any, {} as any);
+            const msg = new MockMessage(channel) as any;
+            await discordBot.DeleteDiscordMessage(msg);
+            expect(redacted).to.deep.equal(["$text:localhost", "$image:localhost"]);
+            expect(deleted).to.deep.equal(["$text:localhost;!room:localhost", "$image:localhost;!room:localhost"]);
+        });
+    });
+    describe("GetStickerUrlByMxc()", () => {
+        const DAY = 86400000;
+        function getStickerBot(createdAt: number) {
+            discordBot = new modDiscordBot.DiscordBot(
+                "",
+                config,
+                mockBridge,
+                {},
+            );
+            discordBot.store.Get = async () => ({
+                CreatedAt: createdAt,
+                DiscordUrl: "https://cdn.discordapp.com/attachments/123/456/sticker.png",
+                MxcUrl: "mxc://localhost/sticker",
+                Result: true,
+            });
+            return discordBot;
+        }
+        it("should link to recently uploaded stickers", async () => {
+            const bot = getStickerBot(Date.now());
+            const url = await bot.GetStickerUrlByMxc("mxc://localhost/sticker");
+            expect(url).to.equal("https://cdn.discordapp.com/attachments/123/456/sticker.png");
+        });
+        it("should upload stickers again once their URL may have expired", async () => {
+            const bot = getStickerBot(Date.now() - DAY);
+            const url = await bot.GetStickerUrlByMxc("mxc://localhost/sticker");
+            expect(url).to.be.null;
+        });
+    });
+    describe("send()", () => {
+        it("should send files without any text", async () => {
+            discordBot = new modDiscordBot.DiscordBot(
+                "",
+                config,
+                mockBridge,
+                {},
+            );
+            discordBot.store.Insert = async () => { };
+            const sent: any[] = [];
+            const channel = {
+                guild: { id: "123" },
+                id: "321",
+                send: async (content, opts) => {
+                    sent.push({ content, opts });
+                    return { id: "1" };
+                },
+            };
+            const messageEmbed = new Discord.RichEmbed();
+            messageEmbed.setDescription("");
+            const file = { attachment: Buffer.from("sticker"), name: "sticker.png" };
+            const msgs = await discordBot.send(
+                { messageEmbed },
+                { file },
+                { botUser: false, channel },
+                { event_id: "$sticker:localhost", room_id: "!room:localhost" },
+            );
+            expect(msgs).to.have.length(1);
+            expect(sent).to.have.length(1);
+            expect(sent[0].opts.file).to.equal(file);
+        });
     });
     describe("event:message", () => {
         it("should delay messages so they arrive in order", async () => {
@@ -35,6 +35,12 @@ const bot = {
             return null;
         },
     },
+    GetEmbedImage: async (url: string): Promise<string> => {
+        if (url.includes("broken")) {
+            throw new Error("Upload failed");
+        }
+        return "mxc://embed";
+    },
     GetEmoji: async (name: string, animated: boolean, id: string): Promise<string> => {
         if (id === "3333333") {
             return "mxc://image";
@@ -71,6 +77,17 @@ describe("DiscordMessageProcessor", () => {
             Chai.assert.equal(result.body, "Hello *World*!");
             Chai.assert.equal(result.formattedBody, "Hello <em>World</em>!");
         });
+        it("processes spoilers correctly", async () => {
+            const processor = new DiscordMessageProcessor(
+                new DiscordMessageProcessorOpts("localhost"), bot as DiscordBot);
+            const msg = new MockMessage() as any;
+            msg.embeds = [];
+            msg.content = "The butler ||did it|| `||not a spoiler||`";
+            const result = await processor.FormatMessage(msg);
+            Chai.assert.equal(result.body, "The butler [Spoiler] `||not a spoiler||`");
+            Chai.assert.equal(result.formattedBody,
+                "The butler <span data-mx-spoiler>did it</span> <code>||not a spoiler||</code>");
+        });
         it("processes non-discord markdown correctly.", async () => {
             const processor = new DiscordMessageProcessor(
                 new DiscordMessageProcessorOpts("localhost"), bot as DiscordBot);
@@ -310,6 +327,65 @@ describe("DiscordMessageProcessor", () => {
         });
     });
 
+    describe("FormatMatrixReply", () => {
+        it("should add the reply fallback of the replied event", () => {
+            const processor = new DiscordMessageProcessor(
+                new DiscordMessageProcessorOpts("localhost"), bot as DiscordBot);
+            const result = { body: "I agree", formattedBody: "I <em>agree</em>", msgtype: "m.text" } as any;
+            const reply = processor.FormatMatrixReply(result, {
+                content: { body: "Foxes are great\nreally", msgtype: "m.text" },
+                event_id: "$orig:localhost",
+                room_id: "!room:localhost",
+                sender: "@fox:localhost",
+            } as any);
+            Chai.assert.equal(reply.body, "> <@fox:localhost> Foxes are great\n> really\n\nI agree");
+            Chai.assert.equal(reply.formattedBody,
+                "<mx-reply><blockquote>" +
+                "<a href=\"https://matrix.to/#/!room:localhost/$orig:localhost\">In reply to</a> " +
+                "<a href=\"https://matrix.to/#/@fox:localhost\">@fox:localhost</a><br>Foxes are great<br>really" +
+                "</blockquote></mx-reply>I <em>agree</em>");
+        });
+        it("should strip the fallback of a replied reply", () => {
+            const processor = new DiscordMessageProcessor(
+                new DiscordMessageProcessorOpts("localhost"), bot as DiscordBot);
+            const result = { body: "Indeed", formattedBody: "Indeed", msgtype: "m.text" } as any;
+            const reply = processor.FormatMatrixReply(result, {
+                content: {
+                    body: "> <@dog:localhost> Woof\n\nFoxes are great",
+                    formatted_body: "<mx-reply><blockquote>Woof</blockquote></mx-reply>Foxes are great",
+                    msgtype: "m.text",
+                },
+                event_id: "$orig:localhost",
+                room_id: "!room:localhost",
+                sender: "@fox:localhost",
+            } as any);
+            Chai.assert.equal(reply.body, "> <@fox:localhost> Foxes are great\n\nIndeed");
+            Chai.assert.isTrue(reply.formattedBody.endsWith("<br>Foxes are great</blockquote></mx-reply>Indeed"));
+        });
+    });
+
+    describe("FormatQuoteReply", () => {
+        it("should quote the replied Discord message", async () => {
+            const processor = new DiscordMessageProcessor(
+                new DiscordMessageProcessorOpts("localhost"), bot as DiscordBot);
+            const result = { body: "I agree", formattedBody: "I agree", msgtype: "m.text" } as any;
+            const repliedMsg = new MockMessage() as any;
+            repliedMsg.author.username = "Fox";
+            repliedMsg.content = "Foxes are great";
+            const reply = await processor.FormatQuoteReply(result, repliedMsg);
+            Chai.assert.equal(reply.body, "> <Fox> Foxes are great\n\nI agree");
+            Chai.assert.equal(reply.formattedBody,
+                "<blockquote>In reply to Fox<br>Foxes are great</blockquote>I agree");
+        });
+        it("should note unknown replied messages", async () => {
+            const processor = new DiscordMessageProcessor(
+                new DiscordMessageProcessorOpts("localhost"), bot as DiscordBot);
+            const result = { body: "I agree", formattedBody: "I agree", msgtype: "m.text" } as any;
+            const reply = await processor.FormatQuoteReply(result, null);
+            Chai.assert.equal(reply.body, "> In reply to an unknown message\n\nI agree");
+        });
+    });
+
     describe("InsertUser / HTML", () => {
         it("processes members missing from the guild correctly", () => {
             const processor = new DiscordMessageProcessor(
@@ -688,6 +764,19 @@ TestDescription
 Image: http://example.com`,
             );
         });
+        it("does not link the title of untitled embeds", () => {
+            const processor = new DiscordMessageProcessor(
+                new DiscordMessageProcessorOpts("localhost"), bot as DiscordBot);
+            const msg = new MockMessage() as any;
+            msg.embeds = [
+                new Discord.MessageEmbed(msg, {
+                    image: { url: "http://example.com" },
+                    url: "testurl",
+                }),
+            ];
+            const content = processor.InsertEmbeds("", msg);
+            Chai.assert.equal(content, "\n\n----\nImage: http://example.com");
+        });
         it("adds a footer properly", () => {
             const processor = new DiscordMessageProcessor(
                 new DiscordMessageProcessorOpts("localhost"), bot as DiscordBot);
@@ -712,6 +801,96 @@ TestDescription
 footer`,
             );
         });
+        it("adds an author, thumbnail and timestamp properly", () => {
+            const processor = new DiscordMessageProcessor(
+                new DiscordMessageProcessorOpts("localhost"), bot as DiscordBot);
+            const msg = new MockMessage() as any;
+            msg.embeds = [
+                new Discord.MessageEmbed(msg, {
+                    author: { name: "Fox Bot" },
+                    description: "TestDescription",
+                    footer: { text: "footer" },
+                    thumbnail: { url: "http://example.com/thumb.png" },
+                    timestamp: "2019-01-01T12:00:00.000Z",
+                    title: "TestTitle",
+                }),
+            ];
+            const inContent = "";
+            const content = processor.InsertEmbeds(inContent, msg);
+            Chai.assert.equal(
+                content,
+`
+
+----
+Fox Bot
+##### TestTitle
+TestDescription
+Thumbnail: http://example.com/thumb.png
+footer • Tue, 01 Jan 2019 12:00:00 GMT`,
+            );
+        });
+        it("processes embeds with only fields", () => {
+            const processor = new DiscordMessageProcessor(
+                new DiscordMessageProcessorOpts("localhost"), bot as DiscordBot);
+            const msg = new MockMessage() as any;
+            msg.embeds = [
+                new Discord.MessageEmbed(msg, {
+                    fields: [{ inline: true, name: "Status", value: "passed" }],
+                }),
+            ];
+            const inContent = "";
+            const content = processor.InsertEmbeds(inContent, msg);
+            Chai.assert.equal(content, "\n\n----\n**Status**\npassed");
+        });
+    });
+    describe("InsertEmbedsPostmark", () => {
+        it("shows the embed colour and uploads images", async () => {
+            const processor = new DiscordMessageProcessor(
+                new DiscordMessageProcessorOpts("localhost"), bot as DiscordBot);
+            const msg = new MockMessage() as any;
+            msg.embeds = [
+                new Discord.MessageEmbed(msg, {
+                    author: { name: "Fox Bot", url: "http://example.com/fox" },
+                    color: 0xFF0000,
+                    description: "TestDescription",
+                    image: { height: 600, url: "http://example.com/image.png", width: 800 },
+                    title: "TestTitle",
+                }),
+            ];
+            const content = await processor.InsertEmbedsPostmark("", msg);
+            Chai.assert.equal(content, "<hr><blockquote><p><font data-mx-color=\"#ff0000\">▌</font> " +
+                "<strong><a href=\"http://example.com/fox\">Fox Bot</a></strong></p><h5>TestTitle</h5>" +
+                "<p>TestDescription</p><p><img alt=\"Image\" src=\"mxc://embed\" width=\"400\" height=\"300\" />" +
+                "</p></blockquote>");
+        });
+        it("links images that could not be uploaded", async () => {
+            const processor = new DiscordMessageProcessor(
+                new DiscordMessageProcessorOpts("localhost"), bot as DiscordBot);
+            const msg = new MockMessage() as any;
+            msg.embeds = [
+                new Discord.MessageEmbed(msg, {
+                    image: { url: "http://example.com/broken.png" },
+                    title: "TestTitle",
+                }),
+            ];
+            const content = await processor.InsertEmbedsPostmark("", msg);
+            Chai.assert.equal(content, "<hr><h5>TestTitle</h5><p>Image: <a href=\"http://example.com/broken.png\">" +
+                "http://example.com/broken.png</a></p>");
+        });
+        it("does not link the title of untitled embeds", async () => {
+            const processor = new DiscordMessageProcessor(
+                new DiscordMessageProcessorOpts("localhost"), bot as DiscordBot);
+            const msg = new MockMessage() as any;
+            msg.embeds = [
+                new Discord.MessageEmbed(msg, {
+                    image: { url: "http://example.com/broken.png" },
+                    url: "http://example.com",
+                }),
+            ];
+            const content = await processor.InsertEmbedsPostmark("", msg);
+            Chai.assert.equal(content, "<hr><p>Image: <a href=\"http://example.com/broken.png\">" +
+                "http://example.com/broken.png</a></p>");
+        });
     });
     describe("Message Type", () => {
         it("sets non-bot messages as m.text", async () => {
@@ -0,0 +1,255 @@
+/*
+Copyright 2019 matrix-appservice-discord
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import * as Chai from "chai";
+import { DMHandler } from "../src/dmhandler";
+import { DbDmRoom } from "../src/db/dbdatadmroom";
+import { DiscordBridgeConfig } from "../src/config";
+import { MockCollection } from "./mocks/collection";
+
+// we are a test file and thus need those
+/* tslint:disable:no-unused-expression max-file-line-count no-any */
+
+const expect = Chai.expect;
+
+const USER_ID = "@user:localhost";
+const DISCORD_ID = "111";
+const BOT_ID = "000";
+const CHANNEL_ID = "222";
+const ROOM_ID = "!dm:localhost";
+
+let DM_ROOMS: DbDmRoom[] = [];
+let CREATED_ROOMS: any[] = [];
+let MATRIX_SENT: any[] = [];
+let DISCORD_SENT: any[] = [];
+let LEFT_ROOMS: string[] = [];
+
+function createDmRoom(roomId: string, userId: string, discordId: string, channelId: string) {
+    const dmRoom = new DbDmRoom();
+    dmRoom.RoomId = roomId;
+    dmRoom.UserId = userId;
+    dmRoom.DiscordId = discordId;
+    dmRoom.ChannelId = channelId;
+    dmRoom.Result = true;
+    return dmRoom;
+}
+
+function createIntent(userId: string) {
+    return {
+        createRoom: async (opts) => {
+            CREATED_ROOMS.push({ creator: userId, opts: opts.options });
+            return { room_id: ROOM_ID };
+        },
+        getClient: () => ({ getUserId: () => userId }),
+        invite: async () => { },
+        join: async () => { },
+        leave: async (roomId: string) => { LEFT_ROOMS.push(roomId); },
+        sendMessage: async (roomId: string, content: any) => {
+            MATRIX_SENT.push({ content, roomId, sender: userId });
+        },
+    };
+}
+
+function createChannel(type: string) {
+    return {
+        id: CHANNEL_ID,
+        name: null,
+        recipient: { id: "333", username: "alice" },
+        recipients: new MockCollection<string, any>(),
+        send: async (content: any) => {
+            DISCORD_SENT.push(content);
+            return { id: "444" };
+        },
+        type,
+    };
+}
+
+function createMessage(type: string, content = "hello") {
+    return {
+        attachments: new MockCollection<string, any>(),
+        author: { id: "333", username: "alice" },
+        channel: createChannel(type),
+        content,
+        id: "555",
+    };
+}
+
+function createDMHandler(opts: any = {}) {
+    DM_ROOMS = opts.dmRooms || [];
+    CREATED_ROOMS = [];
+    MATRIX_SENT = [];
+    DISCORD_SENT = [];
+    LEFT_ROOMS = [];
+    const config = new DiscordBridgeConfig();
+    config.bridge.domain = "localhost";
+    const bridge = {
+        getClientFactory: () => ({ getClientAs: () => ({}) }),
+        getIntent: (userId?: string) => createIntent(userId || "@_discord_bot:localhost"),
+    };
+    const puppetClient = {
+        channels: new MockCollection<string, any>(),
+        fetchUser: async (id: string) => ({
+            createDM: async () => createChannel("dm"),
+            id,
+        }),
+        user: { id: opts.loggedIn === false ? BOT_ID : DISCORD_ID },
+    };
+    puppetClient.channels.set(CHANNEL_ID, createChannel("dm"));
+    const discord = {
+        BotUserId: "@_discord_bot:localhost",
+        ClientFactory: {
+            getClient: async () => puppetClient,
+            getClientForAccount: async () => puppetClient,
+        },
+        GetBotId: () => BOT_ID,
+        GetIntentFromDiscordMember: (user: any) => createIntent(`@_discord_${user.id}:localhost`),
+        MxEventProcessor: {
+            HandleAttachment: async () => "",
+            HandleSticker: async () => "",
+        },
+        UserSyncroniser: {
+            OnUpdateUser: async () => { },
+        },
+    };
+    const store = {
+        Get: async (_, params: any) => {
+            const dmRoom = DM_ROOMS.find((room) => params.room_id ? room.RoomId === params.room_id :
+                room.DiscordId === params.discord_id && room.ChannelId === params.channel_id);
+            return dmRoom || { Result: false };
+        },
+        Insert: async (dmRoom: DbDmRoom) => { DM_ROOMS.push(dmRoom); },
+        Update: async () => { },
+    };
+    const handler = new DMHandler(config, bridge as any, discord as any, store as any);
+    (handler as any).discordMsgProcessor = {
+        FormatMessage: async (msg: any) => ({
+            body: msg.content,
+            formattedBody: msg.content,
+            msgtype: "m.text",
+        }),
+    };
+    (handler as any).matrixMsgProcessor = {
+        FormatMessage: async (content: any) => content.body,
+    };
+    return handler;
+}
+
+describe("DMHandler", () => {
+    describe("OnDiscordMessage", () => {
+        it("should ignore messages in guild channels", async () => {
+            const handler = createDMHandler();
+            await handler.OnDiscordMessage(USER_ID, DISCORD_ID, createMessage("text") as any);
+            expect(CREATED_ROOMS).to.be.empty;
+            expect(MATRIX_SENT).to.be.empty;
+        });
+        it("should create a room for a new DM", async () => {
+            const handler = createDMHandler();
+            await handler.OnDiscordMessage(USER_ID, DISCORD_ID, createMessage("dm") as any);
+            expect(CREATED_ROOMS).to.have.length(1);
+            expect(CREATED_ROOMS[0].creator).to.equal("@_discord_333:localhost");
+            expect(CREATED_ROOMS[0].opts.invite).to.deep.equal([USER_ID, "@_discord_bot:localhost"]);
+            expect(CREATED_ROOMS[0].opts.is_direct).to.be.true;
+            expect(DM_ROOMS).to.have.length(1);
+            expect(DM_ROOMS[0].UserId).to.equal(USER_ID);
+            expect(DM_ROOMS[0].DiscordId).to.equal(DISCORD_ID);
+            expect(MATRIX_SENT[0].content.body).to.equal("hello");
+            expect(MATRIX_SENT[0].sender).to.equal("@_discord_333:localhost");
+        });
+        it("should create a room for a group DM as the bot", async () => {
+            const handler = createDMHandler();
+            await handler.OnDiscordMessage(USER_ID, DISCORD_ID, createMessage("group") as any);
+            expect(CREATED_ROOMS[0].creator).to.equal("@_discord_bot:localhost");
+            expect(CREATED_ROOMS[0].opts.invite).to.deep.equal([USER_ID]);
+        });
+        it("should reuse an existing room", async () => {
+            const handler = createDMHandler({
+                dmRooms: [createDmRoom("!existing:localhost", USER_ID, DISCORD_ID, CHANNEL_ID)],
+            });
+            await handler.OnDiscordMessage(USER_ID, DISCORD_ID, createMessage("dm") as any);
+            expect(CREATED_ROOMS).to.be.empty;
+            expect(MATRIX_SENT[0].roomId).to.equal("!existing:localhost");
+        });
+    });
+    describe("OnMatrixMessage", () => {
+        const event = {
+            content: { body: "hi", msgtype: "m.text" },
+            event_id: "$event:localhost",
+            room_id: ROOM_ID,
+            sender: USER_ID,
+            type: "m.room.message",
+        };
+        it("should return false for rooms that aren't DM rooms", async () => {
+            const handler = createDMHandler();
+            expect(await handler.OnMatrixMessage(event as any)).to.be.false;
+        });
+        it("should send messages of the room's user to Discord", async () => {
+            const handler = createDMHandler({
+                dmRooms: [createDmRoom(ROOM_ID, USER_ID, DISCORD_ID, CHANNEL_ID)],
+            });
+            expect(await handler.OnMatrixMessage(event as any)).to.be.true;
+            expect(DISCORD_SENT).to.deep.equal(["hi"]);
+        });
+        it("should not mirror sent messages back to Matrix", async () => {
+            const handler = createDMHandler({
+                dmRooms: [createDmRoom(ROOM_ID, USER_ID, DISCORD_ID, CHANNEL_ID)],
+            });
+            await handler.OnMatrixMessage(event as any);
+            const msg = createMessage("dm");
+            msg.id = "444";
+            await handler.OnDiscordMessage(USER_ID, DISCORD_ID, msg as any);
+            expect(MATRIX_SENT).to.be.empty;
+        });
+        it("should ignore messages of other users", async () => {
+            const handler = createDMHandler({
+                dmRooms: [createDmRoom(ROOM_ID, USER_ID, DISCORD_ID, CHANNEL_ID)],
+            });
+            await handler.OnMatrixMessage(Object.assign({}, event, { sender: "@other:localhost" }) as any);
+            expect(DISCORD_SENT).to.be.empty;
+        });
+        it("should tell the user if the puppet isn't logged in", async () => {
+            const handler = createDMHandler({
+                dmRooms: [createDmRoom(ROOM_ID, USER_ID, DISCORD_ID, CHANNEL_ID)],
+                loggedIn: false,
+            });
+            await handler.OnMatrixMessage(event as any);
+            expect(DISCORD_SENT).to.be.empty;
+            expect(MATRIX_SENT[0].content.body).to.contain("not logged in");
+        });
+    });
+    describe("OnGhostInvite", () => {
+        const event = {
+            content: { is_direct: true, membership: "invite" },
+            room_id: ROOM_ID,
+            sender: USER_ID,
+            state_key: "@_discord_333:localhost",
+            type: "m.room.member",
+        };
+        it("should bridge a new direct chat", async () => {
+            const handler = createDMHandler();
+            await handler.OnGhostInvite(event as any);
+            expect(DM_ROOMS).to.have.length(1);
+            expect(DM_ROOMS[0].RoomId).to.equal(ROOM_ID);
+            expect(DM_ROOMS[0].ChannelId).to.equal(CHANNEL_ID);
+        });
+        it("should refuse users that aren't logged in", async () => {
+            const handler = createDMHandler({ loggedIn: false });
+            await handler.OnGhostInvite(event as any);
+            expect(DM_ROOMS).to.be.empty;
+            expect(MATRIX_SENT[0].content.body).to.contain("!discord login");
+            expect(LEFT_ROOMS).to.deep.equal([ROOM_ID]);
+        });
+    });
+});
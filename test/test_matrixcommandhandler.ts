@@ -18,6 +18,8 @@ import * as Chai from "chai";
 import { Util } from "../src/util";
 import { DiscordBridgeConfig } from "../src/config";
 import { MockChannel } from "./mocks/channel";
+import { MockCollection } from "./mocks/collection";
+import { Permissions } from "discord.js";
 import * as Proxyquire from "proxyquire";
 
 // we are a test file and thus need those
@@ -30,6 +32,10 @@ let USERSKICKED = 0;
 let USERSBANNED = 0;
 let USERSUNBANNED = 0;
 let MESSAGESENT: any = {};
+let STATEPUSH: any = null;
+let REDACTED = false;
+let TOKEN_ADDED: string | null = null;
+let PREFERRED: any = null;
 
 function createCH(opts: any = {}) {
     USERSJOINED = 0;
@@ -37,6 +43,10 @@ function createCH(opts: any = {}) {
     USERSBANNED = 0;
     USERSUNBANNED = 0;
     MESSAGESENT = {};
+    STATEPUSH = null;
+    REDACTED = false;
+    TOKEN_ADDED = null;
+    PREFERRED = null;
 
     const bridge = {
         getBot: () => {
@@ -69,10 +79,23 @@ function createCH(opts: any = {}) {
         config.bridge.enableSelfServiceBridging = true;
     }
     const mxClient = {
+        getJoinedRoomMembers: async () => {
+            const joined = {"@user:localhost": {}, "@fox:localhost": {}};
+            if (opts.publicRoom) {
+                joined["@someone:localhost"] = {};
+            }
+            return {joined};
+        },
         getUserId: () => "@user:localhost",
         joinRoom: async () => {
             USERSJOINED++;
         },
+        redactEvent: async () => {
+            if (opts.failRedact) {
+                throw new Error("Forbidden");
+            }
+            REDACTED = true;
+        },
         sendReadReceipt: async () => { },
         setRoomDirectoryVisibilityAppService: async () => { },
     };
@@ -94,14 +117,45 @@ function createCH(opts: any = {}) {
         },
     };
     const bot = {
+        ChannelSyncroniser: {
+            SetJoinLeaveNotices: async (roomId, enabled) => {
+                STATEPUSH = {roomId, enabled};
+            },
+            SetMatrixStatePush: async (roomId, state, enabled) => {
+                STATEPUSH = {roomId, state, enabled};
+                return !opts.notPlumbed;
+            },
+        },
+        ClientFactory: {
+            addUserToken: async (userId, token) => {
+                if (token !== "goodtoken") {
+                    throw new Error("Incorrect login details were provided.");
+                }
+                TOKEN_ADDED = token;
+                return "12345";
+            },
+            getClient: async () => ({
+                user: opts.brokenToken ? {id: "@botuser:localhost"} : {id: "12345", tag: "Fox#1234"},
+            }),
+            getDefaultDiscordId: async () => opts.loggedIn ? "12345" : null,
+            getDiscordIdPreferences: async () => new Map([["", "12345"], ["123", "67890"]]),
+            getUserDiscordIds: async () => opts.loggedIn ? ["12345", "67890"] : [],
+            removeUserToken: async (userId, discordId) => opts.loggedIn && discordId === "67890",
+            removeUserTokens: async () => opts.loggedIn ? ["12345", "67890"] : [],
+            setPreferredDiscordId: async (userId, discordId, guildId) => {
+                PREFERRED = {discordId, guildId};
+                return opts.loggedIn && discordId === "67890";
+            },
+        },
         GetBotId: () => "@botuser:localhost",
+        GetLastBridgedMessageTime: async () => opts.lastMessage || null,
         LookupRoom: async (guildid, discordid) => {
             if (guildid !== "123") {
                 throw new Error("Guild not found");
             } else if (discordid !== "456") {
                 throw new Error("Channel not found");
             }
-            const channel = new MockChannel();
+            const channel = opts.channel || new MockChannel();
             return {channel, botUser: true };
         },
         Provisioner: provisioner,
@@ -131,6 +185,18 @@ function createEvent(msg: string, room?: string, userId?: string) {
     };
 }
 
+function createStatusChannel(permissions: string[], webhooks: string[] = []) {
+    const hooks = new MockCollection<string, any>();
+    webhooks.forEach((name, i) => hooks.set(String(i), {name}));
+    return {
+        fetchWebhooks: async () => hooks,
+        guild: {me: {}, name: "Guild"},
+        id: "456",
+        name: "general",
+        permissionsFor: () => new Permissions(permissions as any),
+    };
+}
+
 function createContext(remoteData?: any) {
     return {
         rooms: {
@@ -247,6 +313,193 @@ describe("MatrixCommandHandler", () => {
                 expect(MESSAGESENT.body).to.contain("There was an error unbridging this room.");
             });
         });
+        describe("!discord notices", () => {
+            it("will mute join/leave notices", async () => {
+                const handler: any = createCH();
+                await handler.Process(createEvent("!discord notices off"), createContext({data: {}}));
+                expect(STATEPUSH).to.deep.equal({enabled: false, roomId: "!123:localhost"});
+                expect(MESSAGESENT.body).equals("Join/leave notices will no longer be sent to Discord.");
+            });
+            it("will not mute unbridged rooms", async () => {
+                const handler: any = createCH();
+                await handler.Process(createEvent("!discord notices off"), createContext());
+                expect(STATEPUSH).to.be.null;
+                expect(MESSAGESENT.body).equals("This room is not bridged.");
+            });
+        });
+        describe("!discord sync", () => {
+            it("will enable pushing topic changes", async () => {
+                const handler: any = createCH();
+                await handler.Process(createEvent("!discord sync topic on"), createContext({data: {plumbed: true}}));
+                expect(STATEPUSH).to.deep.equal({enabled: true, roomId: "!123:localhost", state: "topic"});
+                expect(MESSAGESENT.body).equals("Changes to the room topic will now be applied to Discord.");
+            });
+            it("will disable pushing name changes", async () => {
+                const handler: any = createCH();
+                await handler.Process(createEvent("!discord sync name off"), createContext({data: {plumbed: true}}));
+                expect(STATEPUSH).to.deep.equal({enabled: false, roomId: "!123:localhost", state: "name"});
+            });
+            it("will not accept unknown states", async () => {
+                const handler: any = createCH();
+                await handler.Process(createEvent("!discord sync avatar on"), createContext({data: {plumbed: true}}));
+                expect(STATEPUSH).to.be.null;
+                expect(MESSAGESENT.body).to.contain("Invalid syntax");
+            });
+            it("will not push changes for rooms that are not plumbed", async () => {
+                const handler: any = createCH({notPlumbed: true});
+                await handler.Process(createEvent("!discord sync topic on"), createContext({data: {plumbed: false}}));
+                expect(MESSAGESENT.body).to.contain("Only rooms bridged with");
+            });
+        });
+        describe("!discord status", () => {
+            const data = {discord_channel: "456", discord_guild: "123", plumbed: true, update_name: 1};
+            const allPermissions = ["SEND_MESSAGES", "MANAGE_WEBHOOKS", "MANAGE_MESSAGES", "EMBED_LINKS"];
+            it("will report a healthy bridge", async () => {
+                const handler: any = createCH({
+                    channel: createStatusChannel(allPermissions, ["_matrix"]),
+                    lastMessage: new Date("2019-01-01T00:00:00.000Z"),
+                });
+                await handler.Process(createEvent("!discord status"), createContext({data}));
+                expect(MESSAGESENT.body).to.contain("#general (`456`) in Guild (`123`)");
+                expect(MESSAGESENT.body).to.contain("Type: plumbed");
+                expect(MESSAGESENT.body).to.contain("Webhook `_matrix`: present");
+                expect(MESSAGESENT.body).to.contain("Last bridged message: 2019-01-01T00:00:00.000Z");
+                expect(MESSAGESENT.body).to.contain("Updates from Discord: name on, topic off, icon off");
+                expect(MESSAGESENT.body).to.contain("No problems found.");
+            });
+            it("will suggest fixes for missing permissions", async () => {
+                const handler: any = createCH({channel: createStatusChannel(["SEND_MESSAGES"])});
+                await handler.Process(createEvent("!discord status"), createContext({data}));
+                expect(MESSAGESENT.body).to.contain("Webhook `_matrix`: unknown");
+                expect(MESSAGESENT.body).to.contain("Last bridged message: never");
+                expect(MESSAGESENT.body).to.contain("lacks the **Manage Webhooks** permission");
+                expect(MESSAGESENT.body).to.contain("lacks the **Manage Messages** permission");
+                expect(MESSAGESENT.body).to.contain("lacks the **Embed Links** permission");
+                expect(MESSAGESENT.body).to.not.contain("lacks the **Send Messages** permission");
+            });
+            it("will report a missing webhook", async () => {
+                const handler: any = createCH({channel: createStatusChannel(allPermissions)});
+                await handler.Process(createEvent("!discord status"), createContext({data}));
+                expect(MESSAGESENT.body).to.contain("Webhook `_matrix`: missing");
+                expect(MESSAGESENT.body).to.contain("add a webhook named `_matrix`");
+            });
+            it("will report a channel that cannot be found", async () => {
+                const handler: any = createCH();
+                await handler.Process(createEvent("!discord status"),
+                    createContext({data: Object.assign({}, data, {discord_guild: "999"})}));
+                expect(MESSAGESENT.body).to.contain("I cannot find the Discord channel");
+                expect(MESSAGESENT.body).to.contain("`!discord unbridge`");
+            });
+            it("will not report on unbridged rooms", async () => {
+                const handler: any = createCH();
+                await handler.Process(createEvent("!discord status"), createContext());
+                expect(MESSAGESENT.body).equals("This room is not bridged.");
+            });
+        });
+        describe("!discord login", () => {
+            it("will log in with a valid token and redact it", async () => {
+                const handler: any = createCH();
+                await handler.Process(createEvent("!discord login goodtoken", undefined, "@fox:localhost"),
+                    createContext());
+                expect(REDACTED).to.be.true;
+                expect(TOKEN_ADDED).to.equal("goodtoken");
+                expect(MESSAGESENT.body).equals("You are now logged in as Discord user `12345`.");
+            });
+            it("will not log in from a room shared with others", async () => {
+                const handler: any = createCH({publicRoom: true});
+                await handler.Process(createEvent("!discord login goodtoken", undefined, "@fox:localhost"),
+                    createContext());
+                expect(REDACTED).to.be.true;
+                expect(TOKEN_ADDED).to.be.null;
+                expect(MESSAGESENT.body).to.contain("only log in from a direct message");
+            });
+            it("will not log in from a bridged room", async () => {
+                const handler: any = createCH();
+                await handler.Process(createEvent("!discord login goodtoken", undefined, "@fox:localhost"),
+                    createContext({data: {}}));
+                expect(TOKEN_ADDED).to.be.null;
+                expect(MESSAGESENT.body).to.contain("only log in from a direct message");
+            });
+            it("will reject an invalid token", async () => {
+                const handler: any = createCH();
+                await handler.Process(createEvent("!discord login badtoken", undefined, "@fox:localhost"),
+                    createContext());
+                expect(TOKEN_ADDED).to.be.null;
+                expect(MESSAGESENT.body).to.contain("I could not log in with that token");
+            });
+            it("will warn if the token could not be redacted", async () => {
+                const handler: any = createCH({failRedact: true});
+                await handler.Process(createEvent("!discord login goodtoken", undefined, "@fox:localhost"),
+                    createContext());
+                expect(TOKEN_ADDED).to.equal("goodtoken");
+                expect(MESSAGESENT.body).to.contain("I could not remove the message containing your token");
+            });
+        });
+        describe("!discord logout", () => {
+            it("will log out", async () => {
+                const handler: any = createCH({loggedIn: true});
+                await handler.Process(createEvent("!discord logout", undefined, "@fox:localhost"), createContext());
+                expect(MESSAGESENT.body).to.contain("You have been logged out.");
+            });
+            it("will tell users that are not logged in", async () => {
+                const handler: any = createCH();
+                await handler.Process(createEvent("!discord logout", undefined, "@fox:localhost"), createContext());
+                expect(MESSAGESENT.body).equals("You are not logged in.");
+            });
+            it("will log out of a single account", async () => {
+                const handler: any = createCH({loggedIn: true});
+                await handler.Process(createEvent("!discord logout 67890", undefined, "@fox:localhost"),
+                    createContext());
+                expect(MESSAGESENT.body).equals("You have been logged out of Discord user `67890`.");
+            });
+        });
+        describe("!discord accounts", () => {
+            it("will list accounts with their preferences", async () => {
+                const handler: any = createCH({loggedIn: true});
+                await handler.Process(createEvent("!discord accounts", undefined, "@fox:localhost"), createContext());
+                expect(MESSAGESENT.body).to.contain("- `12345` (default)\n- `67890`, used in guild(s) `123`");
+            });
+            it("will tell users that are not logged in", async () => {
+                const handler: any = createCH();
+                await handler.Process(createEvent("!discord accounts", undefined, "@fox:localhost"), createContext());
+                expect(MESSAGESENT.body).to.contain("You are not logged in.");
+            });
+        });
+        describe("!discord switch", () => {
+            it("will change the default account", async () => {
+                const handler: any = createCH({loggedIn: true});
+                await handler.Process(createEvent("!discord switch 67890", undefined, "@fox:localhost"),
+                    createContext());
+                expect(PREFERRED.discordId).to.equal("67890");
+                expect(PREFERRED.guildId).to.be.undefined;
+                expect(MESSAGESENT.body).equals("Discord user `67890` is now your default account.");
+            });
+            it("will change the account used in a guild", async () => {
+                const handler: any = createCH({loggedIn: true});
+                await handler.Process(createEvent("!discord switch 67890 123", undefined, "@fox:localhost"),
+                    createContext());
+                expect(PREFERRED.guildId).to.equal("123");
+                expect(MESSAGESENT.body).equals("Discord user `67890` will be used in guild `123`.");
+            });
+            it("will not switch to an account that is not linked", async () => {
+                const handler: any = createCH({loggedIn: true});
+                await handler.Process(createEvent("!discord switch 11111", undefined, "@fox:localhost"),
+                    createContext());
+                expect(MESSAGESENT.body).equals("You are not logged in as Discord user `11111`.");
+            });
+        });
+        describe("!discord whoami", () => {
+            it("will show the puppeted account", async () => {
+                const handler: any = createCH({loggedIn: true});
+                await handler.Process(createEvent("!discord whoami", undefined, "@fox:localhost"), createContext());
+                expect(MESSAGESENT.body).equals("You are logged in as **Fox#1234** (`12345`).");
+            });
+            it("will report a token that does not work", async () => {
+                const handler: any = createCH({brokenToken: true, loggedIn: true});
+                await handler.Process(createEvent("!discord whoami", undefined, "@fox:localhost"), createContext());
+                expect(MESSAGESENT.body).to.contain("I could not log in with your token");
+            });
+        });
     });
     describe("HandleInvite", () => {
         it("should accept invite for bot user", async () => {
@@ -28,6 +28,7 @@ import { MatrixEventProcessor, MatrixEventProcessorOpts } from "../src/matrixeve
 import { DiscordBridgeConfig } from "../src/config";
 import { MockChannel } from "./mocks/channel";
 import { IMatrixEvent } from "../src/matrixtypes";
+import { RemoteStoreRoom } from "../src/db/roomstore";
 
 // we are a test file and thus need those
 /* tslint:disable:no-unused-expression max-file-line-count no-any */
@@ -89,12 +90,14 @@ let STATE_EVENT_MSG = "";
 let USERSYNC_HANDLED = false;
 let MESSAGE_PROCCESS = "";
 let KICKBAN_HANDLED = false;
+let STATE_PUSHED = false;
 
 function createMatrixEventProcessor(): MatrixEventProcessor {
     USERSYNC_HANDLED = false;
     STATE_EVENT_MSG = "";
     MESSAGE_PROCCESS = "";
     KICKBAN_HANDLED = false;
+    STATE_PUSHED = false;
     const bridge = {
         getBot: () => {
             return {
@@ -200,6 +203,7 @@ function createMatrixEventProcessor(): MatrixEventProcessor {
         OnUpdateUser: async () => { },
     };
     const config = new DiscordBridgeConfig();
+    config.limits.joinLeaveGroupDelay = 0;
 
     const Util = Object.assign(require("../src/util").Util, {
         DownloadFile: (name: string) => {
@@ -208,6 +212,11 @@ function createMatrixEventProcessor(): MatrixEventProcessor {
         },
     });
     const discordbot = {
+        ChannelSyncroniser: {
+            OnMatrixStateUpdate: async (evt) => {
+                STATE_PUSHED = true;
+            },
+        },
         GetBotId: () => "@botuser:localhost",
         GetChannelFromRoomId: async (roomId) => {
             return new MockChannel("123456");
@@ -215,9 +224,25 @@ function createMatrixEventProcessor(): MatrixEventProcessor {
         GetDiscordUserOrMember: async (s) => {
             return new Discord.User({ } as any, { username: "Someuser" });
         },
+        GetReplyMessage: async (evt) => {
+            const relatesTo = evt.content["m.relates_to"];
+            if (relatesTo && relatesTo["m.in_reply_to"].event_id === "$bridged:localhost") {
+                return { id: "987654" };
+            }
+            return null;
+        },
+        GetStickerUrlByMxc: async (mxc) => {
+            if (mxc === "mxc://localhost/cached") {
+                return "https://cdn.discordapp.com/attachments/123/456/foxwave.png";
+            }
+            return null;
+        },
         HandleMatrixKickBan: () => {
             KICKBAN_HANDLED = true;
         },
+        ProcessMatrixReaction: async (evt) => {
+            MESSAGE_PROCCESS = "reacted";
+        },
         ProcessMatrixRedact: async (evt) => {
             MESSAGE_PROCCESS = "redacted";
         },
@@ -249,6 +274,7 @@ function createMatrixEventProcessor(): MatrixEventProcessor {
 }
 const mockChannel = new MockChannel();
 mockChannel.members.set("12345", new MockMember("12345", "testuser2"));
+const REMOTE_ROOM = new RemoteStoreRoom("_discord_123_456", {discord_channel: "456", discord_guild: "123"});
 
 describe("MatrixEventProcessor", () => {
     describe("ProcessStateEvent", () => {
@@ -259,7 +285,7 @@ describe("MatrixEventProcessor", () => {
                 sender: "@user:localhost",
                 type: "m.room.nonexistant",
             } as IMatrixEvent;
-            await processor.ProcessStateEvent(event);
+            await processor.ProcessStateEvent(event, REMOTE_ROOM);
             expect(STATE_EVENT_MSG).to.equal("");
         });
         it("Should ignore bot user states", async () => {
@@ -268,6 +294,19 @@ describe("MatrixEventProcessor", () => {
                 sender: "@botuser:localhost",
                 type: "m.room.member",
             } as IMatrixEvent;
+            await processor.ProcessStateEvent(event, REMOTE_ROOM);
+            expect(STATE_EVENT_MSG).to.equal("");
+        });
+        it("Should ignore states of unbridged rooms", async () => {
+            const processor = createMatrixEventProcessor();
+            const event = {
+                content: {
+                    name: "Test Name",
+                },
+                room_id: "!unbridged:localhost",
+                sender: "@user:localhost",
+                type: "m.room.name",
+            } as IMatrixEvent;
             await processor.ProcessStateEvent(event);
             expect(STATE_EVENT_MSG).to.equal("");
         });
@@ -280,7 +319,7 @@ describe("MatrixEventProcessor", () => {
                 sender: "@user:localhost",
                 type: "m.room.name",
             } as IMatrixEvent;
-            await processor.ProcessStateEvent(event);
+            await processor.ProcessStateEvent(event, REMOTE_ROOM);
             expect(STATE_EVENT_MSG).to.equal("`@user:localhost` set the name to `Test Name` on Matrix.");
         });
         it("Should echo topic changes", async () => {
@@ -292,9 +331,21 @@ describe("MatrixEventProcessor", () => {
                 sender: "@user:localhost",
                 type: "m.room.topic",
             } as IMatrixEvent;
-            await processor.ProcessStateEvent(event);
+            await processor.ProcessStateEvent(event, REMOTE_ROOM);
             expect(STATE_EVENT_MSG).to.equal("`@user:localhost` set the topic to `Test Topic` on Matrix.");
         });
+        it("Should push name and topic changes to Discord", async () => {
+            const processor = createMatrixEventProcessor();
+            const event = {
+                content: {
+                    topic: "Test Topic",
+                },
+                sender: "@user:localhost",
+                type: "m.room.topic",
+            } as IMatrixEvent;
+            await processor.ProcessStateEvent(event, REMOTE_ROOM);
+            expect(STATE_PUSHED).to.be.true;
+        });
         it("Should echo joins", async () => {
             const processor = createMatrixEventProcessor();
             const event = {
@@ -305,7 +356,7 @@ describe("MatrixEventProcessor", () => {
                 type: "m.room.member",
                 unsigned: {},
             } as IMatrixEvent;
-            await processor.ProcessStateEvent(event);
+            await processor.ProcessStateEvent(event, REMOTE_ROOM);
             expect(STATE_EVENT_MSG).to.equal("`@user:localhost` joined the room on Matrix.");
         });
         it("Should echo invites", async () => {
@@ -319,7 +370,7 @@ describe("MatrixEventProcessor", () => {
                 type: "m.room.member",
                 unsigned: {},
             } as IMatrixEvent;
-            await processor.ProcessStateEvent(event);
+            await processor.ProcessStateEvent(event, REMOTE_ROOM);
             expect(STATE_EVENT_MSG).to.equal("`@user:localhost` invited `@user2:localhost` to the room on Matrix.");
         });
         it("Should echo kicks", async () => {
@@ -333,7 +384,7 @@ describe("MatrixEventProcessor", () => {
                 type: "m.room.member",
                 unsigned: {},
             } as IMatrixEvent;
-            await processor.ProcessStateEvent(event);
+            await processor.ProcessStateEvent(event, REMOTE_ROOM);
             expect(STATE_EVENT_MSG).to.equal("`@user:localhost` kicked `@user2:localhost` from the room on Matrix.");
         });
         it("Should echo leaves", async () => {
@@ -347,7 +398,7 @@ describe("MatrixEventProcessor", () => {
                 type: "m.room.member",
                 unsigned: {},
             } as IMatrixEvent;
-            await processor.ProcessStateEvent(event);
+            await processor.ProcessStateEvent(event, REMOTE_ROOM);
             expect(STATE_EVENT_MSG).to.equal("`@user:localhost` left the room on Matrix.");
         });
         it("Should echo bans", async () => {
@@ -361,9 +412,116 @@ describe("MatrixEventProcessor", () => {
                 type: "m.room.member",
                 unsigned: {},
             } as IMatrixEvent;
-            await processor.ProcessStateEvent(event);
+            await processor.ProcessStateEvent(event, REMOTE_ROOM);
             expect(STATE_EVENT_MSG).to.equal("`@user:localhost` banned `@user2:localhost` from the room on Matrix.");
         });
+        it("Should echo display name changes", async () => {
+            const processor = createMatrixEventProcessor();
+            const event = {
+                content: {
+                    displayname: "New Name",
+                    membership: "join",
+                },
+                sender: "@user:localhost",
+                state_key: "@user:localhost",
+                type: "m.room.member",
+                unsigned: {
+                    prev_content: {
+                        displayname: "Old Name",
+                        membership: "join",
+                    },
+                },
+            } as IMatrixEvent;
+            await processor.ProcessStateEvent(event, REMOTE_ROOM);
+            expect(STATE_EVENT_MSG).to.equal("`@user:localhost` changed their display name to `New Name` on Matrix.");
+        });
+        it("Should echo avatar changes", async () => {
+            const processor = createMatrixEventProcessor();
+            const event = {
+                content: {
+                    avatar_url: "mxc://localhost/new",
+                    membership: "join",
+                },
+                sender: "@user:localhost",
+                state_key: "@user:localhost",
+                type: "m.room.member",
+                unsigned: {
+                    prev_content: {
+                        avatar_url: "mxc://localhost/old",
+                        membership: "join",
+                    },
+                },
+            } as IMatrixEvent;
+            await processor.ProcessStateEvent(event, REMOTE_ROOM);
+            expect(STATE_EVENT_MSG).to.equal("`@user:localhost` changed their avatar on Matrix.");
+        });
+        it("Should not echo Discord users", async () => {
+            const processor = createMatrixEventProcessor();
+            const event = {
+                content: {
+                    membership: "join",
+                },
+                sender: "@_discord_1234:localhost",
+                state_key: "@_discord_1234:localhost",
+                type: "m.room.member",
+                unsigned: {},
+            } as IMatrixEvent;
+            await processor.ProcessStateEvent(event, REMOTE_ROOM);
+            expect(STATE_EVENT_MSG).to.equal("");
+        });
+        it("Should not echo joins if disableJoinLeaveNotifications is set", async () => {
+            const processor = createMatrixEventProcessor();
+            (processor as any).config.bridge.disableJoinLeaveNotifications = true;
+            const event = {
+                content: {
+                    membership: "join",
+                },
+                sender: "@user:localhost",
+                type: "m.room.member",
+                unsigned: {},
+            } as IMatrixEvent;
+            await processor.ProcessStateEvent(event, REMOTE_ROOM);
+            expect(STATE_EVENT_MSG).to.equal("");
+        });
+        it("Should not echo leaves in muted rooms", async () => {
+            const processor = createMatrixEventProcessor();
+            const event = {
+                content: {
+                    membership: "leave",
+                },
+                sender: "@user:localhost",
+                state_key: "@user:localhost",
+                type: "m.room.member",
+                unsigned: {},
+            } as IMatrixEvent;
+            await processor.ProcessStateEvent(event, new RemoteStoreRoom("123", {mute_join_leave: 1}));
+            expect(STATE_EVENT_MSG).to.equal("");
+        });
+        it("Should group bursts of membership changes", async () => {
+            const GROUP_DELAY = 50;
+            const GROUP_WAIT = 100;
+            const processor = createMatrixEventProcessor();
+            (processor as any).config.limits.joinLeaveGroupDelay = GROUP_DELAY;
+            const event = (sender) => ({
+                content: {
+                    membership: "join",
+                },
+                room_id: "!someroom:localhost",
+                sender,
+                type: "m.room.member",
+                unsigned: {},
+            } as IMatrixEvent);
+            await processor.ProcessStateEvent(event("@user1:localhost"), REMOTE_ROOM);
+            expect(STATE_EVENT_MSG).to.equal("`@user1:localhost` joined the room on Matrix.");
+            await processor.ProcessStateEvent(event("@user2:localhost"), REMOTE_ROOM);
+            await processor.ProcessStateEvent(event("@user3:localhost"), REMOTE_ROOM);
+            expect(STATE_EVENT_MSG).to.equal("`@user1:localhost` joined the room on Matrix.");
+            await new Promise((resolve) => setTimeout(resolve, GROUP_WAIT));
+            expect(STATE_EVENT_MSG).to.equal(
+                "`@user2:localhost` joined the room on Matrix.\n`@user3:localhost` joined the room on Matrix.",
+            );
+            (processor as any).config.limits.joinLeaveGroupDelay = 0;
+        });
     });
     describe("EventToEmbed", () => {
         it("Should contain a profile.", async () => {
@@ -523,6 +681,24 @@ describe("MatrixEventProcessor", () => {
             } as IMatrixEvent, mockChannel as any);
             Chai.assert.equal(embeds.messageEmbed.description, "Bunnies\n(<@1234>)");
         });
+        it("Should reference bridged discord messages instead of embedding them", async () => {
+            const processor = createMatrixEventProcessor();
+            const embeds = await processor.EventToEmbed({
+                content: {
+                    "body": "Bunnies",
+                    "m.relates_to": {
+                        "m.in_reply_to": {
+                            event_id: "$bridged:localhost",
+                        },
+                    },
+                },
+                sender: "@test:localhost",
+                type: "m.room.message",
+            } as IMatrixEvent, mockChannel as any);
+            Chai.assert.equal(embeds.messageEmbed.description, "Bunnies");
+            Chai.assert.isUndefined(embeds.replyEmbed);
+            Chai.assert.equal(embeds.replyMessage!.id, "987654");
+        });
     });
     describe("HandleAttachment", () => {
         const SMALL_FILE = 200;
@@ -547,6 +723,18 @@ describe("MatrixEventProcessor", () => {
             expect(attachment.name).to.eq("filename.webm");
             expect(attachment.attachment.length).to.eq(SMALL_FILE);
         });
+        it("message with a spoiler", async () => {
+            const processor = createMatrixEventProcessor();
+            const attachment = (await processor.HandleAttachment({
+                content: {
+                    "body": "filename.webm",
+                    "msgtype": "m.video",
+                    "page.codeberg.everypizza.msc4193.spoiler": true,
+                    "url": "mxc://localhost/200",
+                },
+            } as IMatrixEvent, mxClient)) as Discord.FileOptions;
+            expect(attachment.name).to.eq("SPOILER_filename.webm");
+        });
         it("message without a url", async () => {
             const processor = createMatrixEventProcessor();
             const ret = await processor.HandleAttachment({
@@ -619,6 +807,45 @@ describe("MatrixEventProcessor", () => {
             expect(attachment.name).to.eq("Bunnies.png");
         });
     });
+    describe("HandleSticker", () => {
+        const SMALL_FILE = 200;
+        it("should attach an uncached sticker named after its body", async () => {
+            const processor = createMatrixEventProcessor();
+            const attachment = (await processor.HandleSticker({
+                content: {
+                    body: "foxwave",
+                    info: {
+                        mimetype: "image/png",
+                    },
+                    url: "mxc://localhost/200",
+                },
+                type: "m.sticker",
+            } as IMatrixEvent, mxClient)) as Discord.FileOptions;
+            expect(attachment.name).to.eq("foxwave.png");
+            expect(attachment.attachment.length).to.eq(SMALL_FILE);
+        });
+        it("should link a sticker that was already uploaded to Discord", async () => {
+            const processor = createMatrixEventProcessor();
+            const ret = await processor.HandleSticker({
+                content: {
+                    body: "foxwave",
+                    url: "mxc://localhost/cached",
+                },
+                type: "m.sticker",
+            } as IMatrixEvent, mxClient);
+            expect(ret).to.eq("https://cdn.discordapp.com/attachments/123/456/foxwave.png");
+        });
+        it("should ignore a sticker without a url", async () => {
+            const processor = createMatrixEventProcessor();
+            const ret = await processor.HandleSticker({
+                content: {
+                    body: "foxwave",
+                },
+                type: "m.sticker",
+            } as IMatrixEvent, mxClient);
+            expect(ret).to.eq("");
+        });
+    });
     describe("GetEmbedForReply", () => {
         it("should handle reply-less events", async () => {
             const processor = createMatrixEventProcessor();
@@ -885,6 +1112,24 @@ This is the reply`,
                 type: "m.room.redaction"}), context);
             expect(MESSAGE_PROCCESS).equals("redacted");
         });
+        it("should handle reactions with existing rooms", async () => {
+            const processor = createMatrixEventProcessor();
+            const context = {
+                rooms: {
+                    remote: true,
+                },
+            };
+            await processor.OnEvent(buildRequest({
+                content: {
+                    "m.relates_to": {
+                        event_id: "$goodEvent:localhost",
+                        key: "🦊",
+                        rel_type: "m.annotation",
+                    },
+                },
+                type: "m.reaction"}), context);
+            expect(MESSAGE_PROCCESS).equals("reacted");
+        });
         it("should ignore redactions with no linked room", async () => {
             const processor = createMatrixEventProcessor();
             const context = {
@@ -916,6 +1161,41 @@ This is the reply`,
             expect(MESSAGE_PROCCESS).to.equal("");
             expect(processed).to.be.true;
         });
+        it("should process edits separately", async () => {
+            const processor = createMatrixEventProcessor();
+            const context = {
+                rooms: {
+                    remote: {
+                        roomId: "_discord_123_456",
+                    },
+                },
+            };
+            let processed = false;
+            let edited = false;
+            processor.ProcessMsgEvent = async (evt, _, __) => {
+                processed = true;
+            };
+            processor.ProcessEditEvent = async (evt, _, __) => {
+                edited = true;
+            };
+            await processor.OnEvent(buildRequest({
+                content: {
+                    "body": "* abc",
+                    "m.new_content": {
+                        body: "abc",
+                        msgtype: "m.text",
+                    },
+                    "m.relates_to": {
+                        event_id: "$original:localhost",
+                        rel_type: "m.replace",
+                    },
+                    "msgtype": "m.text",
+                },
+                type: "m.room.message",
+            }), context);
+            expect(processed).to.be.false;
+            expect(edited).to.be.true;
+        });
         it("should alert if encryption is turned on", async () => {
             const processor = createMatrixEventProcessor();
             const context = {
@@ -138,6 +138,20 @@ describe("MatrixMessageProcessor", () => {
             const result = await mp.FormatMessage(msg, guild as any);
             expect(result).is.equal("does ~~this text~~ exist?");
         });
+        it("converts spoilers", async () => {
+            const mp = new MatrixMessageProcessor(bot);
+            const guild = new MockGuild("1234");
+            const msg = getHtmlMessage("the butler <span data-mx-spoiler>did it</span>");
+            const result = await mp.FormatMessage(msg, guild as any);
+            expect(result).is.equal("the butler ||did it||");
+        });
+        it("converts spoilers with a reason", async () => {
+            const mp = new MatrixMessageProcessor(bot);
+            const guild = new MockGuild("1234");
+            const msg = getHtmlMessage("the butler <span data-mx-spoiler=\"movie\">did it</span>");
+            const result = await mp.FormatMessage(msg, guild as any);
+            expect(result).is.equal("the butler (movie) ||did it||");
+        });
         it("converts code", async () => {
             const mp = new MatrixMessageProcessor(bot);
             const guild = new MockGuild("1234");
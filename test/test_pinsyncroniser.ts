@@ -0,0 +1,170 @@
+/*
+Copyright 2019 matrix-appservice-discord
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import * as Chai from "chai";
+import { PinSyncroniser } from "../src/pinsyncroniser";
+import { RemoteStoreRoom } from "../src/db/roomstore";
+import { MockCollection } from "./mocks/collection";
+
+// we are a test file and thus need those
+/* tslint:disable:no-unused-expression max-file-line-count no-any */
+
+const expect = Chai.expect;
+
+const ROOM_ID = "!room:localhost";
+const CHANNEL_ID = "123";
+
+// [matrixId, discordId, channelId]
+const EVENT_STORE = [
+    [`$pinned:localhost;${ROOM_ID}`, "111", CHANNEL_ID],
+    [`$unpinned:localhost;${ROOM_ID}`, "222", CHANNEL_ID],
+    [`$other:localhost;!other:localhost`, "333", CHANNEL_ID],
+];
+
+let MATRIX_PINS: string[] | null = [];
+let SENT_PINS: string[] | null = null;
+let DISCORD_PINS: string[] = [];
+let PINNED: string[] = [];
+let UNPINNED: string[] = [];
+
+function createStoreEvent(rows: string[][]) {
+    let index = -1;
+    const storeEvent: any = {
+        Next: () => {
+            index++;
+            if (index >= rows.length) {
+                return false;
+            }
+            [storeEvent.MatrixId, storeEvent.DiscordId, storeEvent.ChannelId] = rows[index];
+            return true;
+        },
+        Result: rows.length > 0,
+    };
+    return storeEvent;
+}
+
+function createMessage(id: string) {
+    return {
+        id,
+        pin: async () => { PINNED.push(id); },
+        unpin: async () => { UNPINNED.push(id); },
+    };
+}
+
+function createChannel() {
+    return {
+        fetchMessage: async (id: string) => createMessage(id),
+        fetchPinnedMessages: async () => {
+            const pins = new MockCollection<string, any>();
+            for (const id of DISCORD_PINS) {
+                pins.set(id, createMessage(id));
+            }
+            return pins;
+        },
+        id: CHANNEL_ID,
+    };
+}
+
+function createPinSyncroniser(): PinSyncroniser {
+    MATRIX_PINS = [];
+    SENT_PINS = null;
+    DISCORD_PINS = [];
+    PINNED = [];
+    UNPINNED = [];
+    const bridge = {
+        getIntent: () => ({
+            getClient: () => ({
+                getStateEvent: async () => {
+                    if (MATRIX_PINS === null) {
+                        throw { errcode: "M_NOT_FOUND" };
+                    }
+                    return { pinned: MATRIX_PINS };
+                },
+            }),
+            sendStateEvent: async (roomId: string, type: string, key: string, content: any) => {
+                SENT_PINS = content.pinned;
+            },
+        }),
+    };
+    const discord = {
+        ChannelSyncroniser: {
+            GetRoomIdsFromChannel: async () => [ROOM_ID],
+        },
+        GetEventIdsByRoom: async (discordId: string) => new Map(EVENT_STORE
+            .filter((row) => row[1] === discordId)
+            .map((row) => row[0].split(";").reverse() as [string, string]),
+        ),
+        LookupRoom: async () => ({ channel: createChannel() }),
+    };
+    const store = {
+        Get: async (_, params) => createStoreEvent(EVENT_STORE.filter((row) => row[0] === params.matrix_id)),
+    };
+    return new PinSyncroniser(bridge as any, discord as any, store as any);
+}
+
+describe("PinSyncroniser", () => {
+    describe("OnDiscordPinsUpdate", () => {
+        it("should pin bridged messages in Matrix", async () => {
+            const pinSync = createPinSyncroniser();
+            MATRIX_PINS = null;
+            DISCORD_PINS = ["111"];
+            await pinSync.OnDiscordPinsUpdate(createChannel() as any);
+            expect(SENT_PINS).to.deep.equal(["$pinned:localhost"]);
+        });
+        it("should unpin bridged messages but keep Matrix only pins", async () => {
+            const pinSync = createPinSyncroniser();
+            MATRIX_PINS = ["$matrixonly:localhost", "$unpinned:localhost"];
+            DISCORD_PINS = ["111"];
+            await pinSync.OnDiscordPinsUpdate(createChannel() as any);
+            expect(SENT_PINS).to.deep.equal(["$matrixonly:localhost", "$pinned:localhost"]);
+        });
+        it("should not update pins that are already in sync", async () => {
+            const pinSync = createPinSyncroniser();
+            MATRIX_PINS = ["$pinned:localhost"];
+            DISCORD_PINS = ["111", "444"];
+            await pinSync.OnDiscordPinsUpdate(createChannel() as any);
+            expect(SENT_PINS).to.be.null;
+        });
+    });
+    describe("OnMatrixPinnedEvents", () => {
+        const remoteRoom = new RemoteStoreRoom("test", {
+            discord_channel: CHANNEL_ID,
+            discord_guild: "456",
+        });
+        it("should pin and unpin bridged messages on Discord", async () => {
+            const pinSync = createPinSyncroniser();
+            MATRIX_PINS = ["$pinned:localhost"];
+            DISCORD_PINS = ["222", "444"];
+            await pinSync.OnMatrixPinnedEvents({
+                content: { pinned: ["$pinned:localhost"] },
+                room_id: ROOM_ID,
+                sender: "@user:localhost",
+            } as any, remoteRoom);
+            expect(PINNED).to.deep.equal(["111"]);
+            expect(UNPINNED).to.deep.equal(["222"]);
+        });
+        it("should ignore events that were not bridged", async () => {
+            const pinSync = createPinSyncroniser();
+            await pinSync.OnMatrixPinnedEvents({
+                content: { pinned: ["$matrixonly:localhost"] },
+                room_id: ROOM_ID,
+                sender: "@user:localhost",
+            } as any, remoteRoom);
+            expect(PINNED).to.be.empty;
+            expect(UNPINNED).to.be.empty;
+        });
+    });
+});
@@ -18,13 +18,63 @@ import * as Chai from "chai";
 import { Provisioner } from "../src/provisioner";
 import { MockChannel } from "./mocks/channel";
 import { MockMember } from "./mocks/member";
+import { Util } from "../src/util";
 
 // we are a test file and thus need those
-/* tslint:disable:no-any */
+/* tslint:disable:no-unused-expression no-any */
 
 const expect = Chai.expect;
 
 const TIMEOUT_MS = 1000;
+const EXPIRED_MS = 1000;
+
+function createStore(requests: any[] = []) {
+    const approvals: any[] = [];
+    return {
+        addBridgeApproval: async (approval: any) => { approvals.push(approval); },
+        addBridgeRequest: async (request: any) => { requests.push(request); },
+        approvals,
+        deleteBridgeRequest: async (guildId: string, channelId: string) => {
+            const index = requests.findIndex((r) => r.guildId === guildId && r.channelId === channelId);
+            if (index !== -1) {
+                requests.splice(index, 1);
+            }
+        },
+        getBridgeRequests: async () => requests.slice(),
+        requests,
+    };
+}
+
+function createRequestChannel(sent: string[]) {
+    const guild = {
+        fetchMember: async (user: any) => new MockMember(user.id, "Mark"),
+        id: "guild",
+    };
+    const channel = new MockChannel("foo", guild) as any;
+    channel.send = async (content: string) => {
+        sent.push(content);
+        return { id: "request", react: async () => { } };
+    };
+    return channel;
+}
+
+function createReaction(channel: any, emoji: string, messageId = "request") {
+    const reaction = {
+        emoji: { name: emoji },
+        message: { channel, id: messageId },
+        remove: async () => { reaction.removed = true; },
+        removed: false,
+    };
+    return reaction;
+}
+
+function createBridge(notices: string[]) {
+    return {
+        getIntent: () => ({
+            sendMessage: async (roomId: string, content: any) => { notices.push(content.body); },
+        }),
+    };
+}
 
 describe("Provisioner", () => {
     describe("AskBridgePermission", () => {
@@ -73,4 +123,118 @@ describe("Provisioner", () => {
             expect(await promise).to.eq("Approved");
         });
     });
+    describe("bridge request persistence", () => {
+        const guild = { id: "guild" };
+        it("should store a request until it is answered", async () => {
+            const store = createStore();
+            const p = new Provisioner({} as any, {} as any, undefined, store as any);
+            const promise = p.AskBridgePermission(
+                new MockChannel("foo", guild) as any,
+                "Mark",
+                TIMEOUT_MS,
+                "!room:localhost",
+            );
+            await Util.DelayedPromise(1);
+            expect(store.requests).to.have.length(1);
+            expect(store.requests[0].roomId).to.equal("!room:localhost");
+            await p.MarkApproved(new MockChannel("foo", guild) as any, new MockMember("abc", "Mark") as any, true);
+            await promise;
+            expect(store.requests).to.be.empty;
+        });
+        it("should bridge a restored request once approved", async () => {
+            const notices: string[] = [];
+            const bridged: string[] = [];
+            const store = createStore([{
+                channelId: "foo",
+                expiresAt: Date.now() + TIMEOUT_MS,
+                guildId: "guild",
+                requestor: "Mark",
+                roomId: "!room:localhost",
+            }]);
+            const p = new Provisioner({} as any, {} as any, undefined, store as any, createBridge(notices) as any);
+            p.BridgeMatrixRoom = async (channel, roomId) => { bridged.push(roomId); };
+            const channels = new Map([["foo", new MockChannel("foo", guild)]]);
+            await p.RestoreBridgeRequests({ channels } as any);
+            expect(p.HasPendingRequest(new MockChannel("foo", guild) as any)).to.be.true;
+            await p.MarkApproved(new MockChannel("foo", guild) as any, new MockMember("abc", "Mark") as any, true);
+            await Util.DelayedPromise(1);
+            expect(bridged).to.deep.equal(["!room:localhost"]);
+            expect(notices).to.deep.equal(["I have bridged this room to your channel"]);
+            expect(store.requests).to.be.empty;
+        });
+        it("should tell the room about requests that expired during a restart", async () => {
+            const notices: string[] = [];
+            const store = createStore([{
+                channelId: "foo",
+                expiresAt: Date.now() - EXPIRED_MS,
+                guildId: "guild",
+                requestor: "Mark",
+                roomId: "!room:localhost",
+            }]);
+            const p = new Provisioner({} as any, {} as any, undefined, store as any, createBridge(notices) as any);
+            const channels = new Map([["foo", new MockChannel("foo", guild)]]);
+            await p.RestoreBridgeRequests({ channels } as any);
+            expect(p.HasPendingRequest(new MockChannel("foo", guild) as any)).to.be.false;
+            expect(notices).to.deep.equal(["Timed out waiting for a response from the Discord owners"]);
+            expect(store.requests).to.be.empty;
+        });
+    });
+    describe("MarkApprovedByReaction", () => {
+        it("should approve a request and record who approved it", async () => {
+            const sent: string[] = [];
+            const store = createStore();
+            const p = new Provisioner({} as any, {} as any, undefined, store as any);
+            const channel = createRequestChannel(sent);
+            const promise = p.AskBridgePermission(channel, "Mark", TIMEOUT_MS, "!room:localhost");
+            await Util.DelayedPromise(1);
+            const reaction = createReaction(channel, "\u2705");
+            const handled = await p.MarkApprovedByReaction(reaction as any, { id: "abc" } as any);
+            expect(handled).to.be.true;
+            expect(await promise).to.eq("Approved");
+            expect(store.approvals).to.have.length(1);
+            expect(store.approvals[0].approverId).to.equal("abc");
+            expect(store.approvals[0].decision).to.equal("approved");
+            expect(store.approvals[0].roomId).to.equal("!room:localhost");
+            expect(sent[1]).to.contain("approved");
+        });
+        it("should decline a request", async () => {
+            const store = createStore();
+            const p = new Provisioner({} as any, {} as any, undefined, store as any);
+            const channel = createRequestChannel([]);
+            const promise = p.AskBridgePermission(channel, "Mark", TIMEOUT_MS, "!room:localhost");
+            await Util.DelayedPromise(1);
+            await p.MarkApprovedByReaction(createReaction(channel, "\u274C") as any, { id: "abc" } as any);
+            try {
+                await promise;
+                throw Error("Should have thrown an error");
+            } catch (err) {
+                expect(err.message).to.eq("The bridge has been declined by the Discord guild");
+            }
+            expect(store.approvals[0].decision).to.equal("declined");
+        });
+        it("should ignore reactions of users without permission", async () => {
+            const sent: string[] = [];
+            const p = new Provisioner({} as any, {} as any);
+            const channel = createRequestChannel(sent);
+            channel.permissionsFor = () => null;
+            p.AskBridgePermission(channel, "Mark", TIMEOUT_MS).catch(() => { });
+            await Util.DelayedPromise(1);
+            const reaction = createReaction(channel, "\u2705");
+            await p.MarkApprovedByReaction(reaction as any, { id: "abc" } as any);
+            expect(reaction.removed).to.be.true;
+            expect(p.HasPendingRequest(channel)).to.be.true;
+        });
+        it("should ignore reactions on other messages", async () => {
+            const p = new Provisioner({} as any, {} as any);
+            const channel = createRequestChannel([]);
+            p.AskBridgePermission(channel, "Mark", TIMEOUT_MS).catch(() => { });
+            await Util.DelayedPromise(1);
+            const handled = await p.MarkApprovedByReaction(
+                createReaction(channel, "\u2705", "other") as any,
+                { id: "abc" } as any,
+            );
+            expect(handled).to.be.false;
+            expect(p.HasPendingRequest(channel)).to.be.true;
+        });
+    });
 });
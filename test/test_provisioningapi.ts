@@ -0,0 +1,317 @@
+/*
+Copyright 2019 matrix-appservice-discord
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import * as Chai from "chai";
+import { ProvisioningApi } from "../src/provisioningapi";
+import { RemoteStoreRoom } from "../src/db/roomstore";
+import { Util } from "../src/util";
+
+// we are a test file and thus need those
+/* tslint:disable:no-unused-expression max-file-line-count no-any */
+
+const expect = Chai.expect;
+
+const SECRET = "secret";
+const PREFIX = "/_matrix/provision/v1";
+const HTTP_OK = 200;
+const HTTP_ACCEPTED = 202;
+const HTTP_BAD_REQUEST = 400;
+const HTTP_UNAUTHORIZED = 401;
+const HTTP_FORBIDDEN = 403;
+const HTTP_NOT_FOUND = 404;
+const HTTP_CONFLICT = 409;
+
+let HANDLERS: {[path: string]: any} = {};
+let UNBRIDGED: string[] = [];
+let BRIDGED: string[] = [];
+let REQUESTS: any[] = [];
+let APPROVALS: any[] = [];
+let APPROVE: (() => void) | null = null;
+let DECLINE: ((err: Error) => void) | null = null;
+
+function decide(roomId: string, decision: string) {
+    REQUESTS = REQUESTS.filter((r) => r.roomId !== roomId);
+    APPROVALS.push({
+        approverName: "Mark#1234",
+        channelId: "456",
+        decision,
+        guildId: "123",
+        requestor: "@user:localhost",
+        roomId,
+    });
+}
+
+function createApi(opts: any = {}) {
+    HANDLERS = {};
+    UNBRIDGED = [];
+    BRIDGED = [];
+    REQUESTS = opts.requests || [];
+    APPROVALS = opts.approvals || [];
+    APPROVE = null;
+    DECLINE = null;
+    const bridge = {
+        addAppServicePath: (path: any) => { HANDLERS[`${path.method} ${path.path}`] = path.handler; },
+        getIntent: () => ({
+            join: async () => {
+                if (opts.cannotJoin) {
+                    throw new Error("not invited");
+                }
+            },
+        }),
+    };
+    const channel = { guild: { id: "123" }, id: "456" };
+    const discord = {
+        GetGuilds: () => [{ id: "123", name: "My Guild" }],
+        LookupRoom: async (guildId: string, channelId: string) => {
+            if (guildId !== "123" || channelId !== "456") {
+                throw new Error("Channel not found");
+            }
+            return { channel };
+        },
+        Provisioner: {
+            AskBridgePermission: async (chan: any, requestor: string, timeout: any, roomId: string) => {
+                REQUESTS.push({ channelId: "456", guildId: "123", requestor, roomId });
+                return new Promise((resolve, reject) => {
+                    APPROVE = () => {
+                        decide(roomId, "approved");
+                        resolve();
+                    };
+                    DECLINE = (err: Error) => {
+                        decide(roomId, "declined");
+                        reject(err);
+                    };
+                });
+            },
+            BridgeMatrixRoom: async (chan: any, roomId: string) => { BRIDGED.push(roomId); },
+            HasPendingRequest: () => Boolean(opts.pending),
+            UnbridgeChannel: async (chan: any, roomId: string) => { UNBRIDGED.push(roomId); },
+        },
+        ThirdpartySearchForChannels: () => [{
+            alias: "#_discord_123_456:localhost",
+            fields: { channel_id: "456", channel_name: "general", guild_id: "123" },
+        }],
+    };
+    const roomStore = {
+        getEntriesByMatrixId: async (roomId: string) => {
+            if (roomId === "!bridged:localhost" || roomId === "!alias:localhost" || BRIDGED.includes(roomId)) {
+                return [{
+                    remote: new RemoteStoreRoom("remote", {
+                        discord_channel: "456",
+                        discord_guild: "123",
+                        plumbed: roomId === "!bridged:localhost",
+                    }),
+                }];
+            }
+            return [];
+        },
+    };
+    const store = {
+        getBridgeApprovalsOfRoom: async (roomId: string) => APPROVALS.filter((a) => a.roomId === roomId),
+        getBridgeRequests: async () => REQUESTS,
+    };
+    const api = new ProvisioningApi(
+        { enabled: true, sharedSecret: SECRET },
+        bridge as any,
+        discord as any,
+        roomStore as any,
+        store as any,
+    );
+    api.Register();
+    return api;
+}
+
+async function request(method: string, path: string, opts: any = {}) {
+    const handlerPath = Object.keys(HANDLERS).find((key) => {
+        const [keyMethod, keyPath] = key.split(" ");
+        return keyMethod === method &&
+            new RegExp(`^${keyPath.replace(/:[a-zA-Z]+/g, "[^/]+")}$`).test(PREFIX + path);
+    });
+    if (!handlerPath) {
+        throw new Error(`No handler for ${method} ${path}`);
+    }
+    const params = {};
+    const keyParts = handlerPath.split(" ")[1].split("/");
+    const pathParts = (PREFIX + path).split("/");
+    keyParts.forEach((part, i) => {
+        if (part.startsWith(":")) {
+            params[part.substr(1)] = pathParts[i];
+        }
+    });
+    const res: any = { body: null, statusCode: 0 };
+    res.status = (code: number) => {
+        res.statusCode = code;
+        return res;
+    };
+    res.json = (body: any) => { res.body = body; };
+    await HANDLERS[handlerPath]({
+        body: opts.body,
+        headers: opts.noAuth ? {} : { authorization: `Bearer ${opts.token || SECRET}` },
+        params,
+        path,
+        query: {},
+    }, res);
+    return res;
+}
+
+describe("ProvisioningApi", () => {
+    it("should require a shared secret", () => {
+        const config = { enabled: true, sharedSecret: "" };
+        expect(() => new ProvisioningApi(config, {} as any, {} as any, {} as any, {} as any))
+            .to.throw();
+    });
+    describe("authentication", () => {
+        it("should reject requests without a token", async () => {
+            createApi();
+            const res = await request("GET", "/guilds", { noAuth: true });
+            expect(res.statusCode).to.equal(HTTP_UNAUTHORIZED);
+            expect(res.body.errcode).to.equal("M_MISSING_TOKEN");
+        });
+        it("should reject requests with the wrong token", async () => {
+            createApi();
+            const res = await request("GET", "/guilds", { token: "wrong" });
+            expect(res.statusCode).to.equal(HTTP_FORBIDDEN);
+        });
+    });
+    describe("GET /guilds", () => {
+        it("should list guilds", async () => {
+            createApi();
+            const res = await request("GET", "/guilds");
+            expect(res.statusCode).to.equal(HTTP_OK);
+            expect(res.body.guilds).to.deep.equal([{ id: "123", name: "My Guild" }]);
+        });
+    });
+    describe("GET /guilds/:guildId/channels", () => {
+        it("should list channels", async () => {
+            createApi();
+            const res = await request("GET", "/guilds/123/channels");
+            expect(res.statusCode).to.equal(HTTP_OK);
+            expect(res.body.channels).to.deep.equal([
+                { alias: "#_discord_123_456:localhost", id: "456", name: "general" },
+            ]);
+        });
+        it("should 404 for unknown guilds", async () => {
+            createApi();
+            const res = await request("GET", "/guilds/999/channels");
+            expect(res.statusCode).to.equal(HTTP_NOT_FOUND);
+        });
+    });
+    describe("GET /rooms/:roomId/links", () => {
+        it("should list the links of a room", async () => {
+            createApi();
+            const res = await request("GET", "/rooms/!bridged:localhost/links");
+            expect(res.body.links).to.deep.equal([{ channel_id: "456", guild_id: "123", plumbed: true }]);
+        });
+        it("should list no links for an unbridged room", async () => {
+            createApi();
+            const res = await request("GET", "/rooms/!new:localhost/links");
+            expect(res.body.links).to.be.empty;
+        });
+    });
+    describe("POST /rooms/:roomId/links", () => {
+        const body = { channel_id: "456", guild_id: "123", user_id: "@user:localhost" };
+        it("should bridge the room once approved", async () => {
+            createApi();
+            const res = await request("POST", "/rooms/!new:localhost/links", { body });
+            expect(res.statusCode).to.equal(HTTP_ACCEPTED);
+            expect(res.body.status).to.equal("pending");
+            APPROVE!();
+            await Util.DelayedPromise(1);
+            expect(BRIDGED).to.deep.equal(["!new:localhost"]);
+            const status = await request("GET", "/rooms/!new:localhost/request");
+            expect(status.body.status).to.equal("approved");
+        });
+        it("should report declined requests", async () => {
+            createApi();
+            await request("POST", "/rooms/!new:localhost/links", { body });
+            DECLINE!(new Error("The bridge has been declined by the Discord guild"));
+            await Util.DelayedPromise(1);
+            expect(BRIDGED).to.be.empty;
+            const status = await request("GET", "/rooms/!new:localhost/request");
+            expect(status.body.status).to.equal("declined");
+            expect(status.body.error).to.equal("The bridge has been declined by Mark#1234");
+        });
+        it("should require all parameters", async () => {
+            createApi();
+            const res = await request("POST", "/rooms/!new:localhost/links", { body: { guild_id: "123" } });
+            expect(res.statusCode).to.equal(HTTP_BAD_REQUEST);
+        });
+        it("should not bridge rooms that are already bridged", async () => {
+            createApi();
+            const res = await request("POST", "/rooms/!bridged:localhost/links", { body });
+            expect(res.statusCode).to.equal(HTTP_CONFLICT);
+        });
+        it("should not bridge channels with a pending request", async () => {
+            createApi({ pending: true });
+            const res = await request("POST", "/rooms/!new:localhost/links", { body });
+            expect(res.statusCode).to.equal(HTTP_CONFLICT);
+        });
+        it("should 404 for unknown channels", async () => {
+            createApi();
+            const res = await request("POST", "/rooms/!new:localhost/links", {
+                body: Object.assign({}, body, { channel_id: "999" }),
+            });
+            expect(res.statusCode).to.equal(HTTP_NOT_FOUND);
+        });
+        it("should fail if the bot cannot join the room", async () => {
+            createApi({ cannotJoin: true });
+            const res = await request("POST", "/rooms/!new:localhost/links", { body });
+            expect(res.statusCode).to.equal(HTTP_FORBIDDEN);
+        });
+    });
+    describe("DELETE /rooms/:roomId/links", () => {
+        it("should unbridge the room", async () => {
+            createApi();
+            const res = await request("DELETE", "/rooms/!bridged:localhost/links");
+            expect(res.statusCode).to.equal(HTTP_OK);
+            expect(UNBRIDGED).to.deep.equal(["!bridged:localhost"]);
+        });
+        it("should not unbridge rooms that weren't plumbed", async () => {
+            createApi();
+            const res = await request("DELETE", "/rooms/!alias:localhost/links");
+            expect(res.statusCode).to.equal(HTTP_BAD_REQUEST);
+            expect(UNBRIDGED).to.be.empty;
+        });
+        it("should 404 for unbridged rooms", async () => {
+            createApi();
+            const res = await request("DELETE", "/rooms/!new:localhost/links");
+            expect(res.statusCode).to.equal(HTTP_NOT_FOUND);
+        });
+    });
+    describe("GET /rooms/:roomId/request", () => {
+        it("should 404 if nothing was requested", async () => {
+            createApi();
+            const res = await request("GET", "/rooms/!new:localhost/request");
+            expect(res.statusCode).to.equal(HTTP_NOT_FOUND);
+        });
+        it("should report stored requests that are still pending", async () => {
+            createApi({ requests: [{ channelId: "456", guildId: "123", requestor: "@user:localhost",
+                roomId: "!new:localhost" }] });
+            const res = await request("GET", "/rooms/!new:localhost/request");
+            expect(res.body).to.deep.equal({
+                channel_id: "456",
+                guild_id: "123",
+                status: "pending",
+                user_id: "@user:localhost",
+            });
+        });
+        it("should report approved requests of rooms that did not get bridged as failed", async () => {
+            createApi();
+            decide("!new:localhost", "approved");
+            const res = await request("GET", "/rooms/!new:localhost/request");
+            expect(res.body.status).to.equal("failed");
+        });
+    });
+});
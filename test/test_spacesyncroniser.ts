@@ -0,0 +1,223 @@
+/*
+Copyright 2019 matrix-appservice-discord
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import * as Chai from "chai";
+import { SpaceSyncroniser } from "../src/spacesyncroniser";
+import { DiscordBridgeConfig } from "../src/config";
+import { MockCollection } from "./mocks/collection";
+
+// we are a test file and thus need those
+/* tslint:disable:no-unused-expression max-file-line-count no-any */
+
+const expect = Chai.expect;
+
+// The guild space, a category space and the rooms of two channels.
+const BRIDGED_GUILD_ROOMS = 4;
+
+let CREATED_ROOMS: any[] = [];
+let STATE_EVENTS: any[] = [];
+let ROOM_NAMES: any[] = [];
+let LINKED_ROOMS: any[] = [];
+let SPACES: any[] = [];
+
+function createChannel(guild: any, id: string, type: string, parentID: string | null = null, visible = true) {
+    const channel = {
+        guild,
+        id,
+        name: `channel-${id}`,
+        parentID,
+        permissionsFor: () => ({ has: () => visible }),
+        type,
+    };
+    guild.channels.set(id, channel);
+    return channel;
+}
+
+function createGuild() {
+    return {
+        channels: new MockCollection<string, any>(),
+        icon: null,
+        id: "123",
+        me: {},
+        name: "My Guild",
+    };
+}
+
+function createSpaceSync(opts: any = {}) {
+    CREATED_ROOMS = [];
+    STATE_EVENTS = [];
+    ROOM_NAMES = [];
+    LINKED_ROOMS = opts.linkedRooms || [];
+    SPACES = opts.spaces || [];
+    const config = new DiscordBridgeConfig();
+    config.bridge.domain = "localhost";
+    config.bridge.enableGuildSpaces = true;
+    const bridge = {
+        getIntent: () => ({
+            createRoom: async (createOpts: any) => {
+                const roomId = `!room${CREATED_ROOMS.length}:localhost`;
+                CREATED_ROOMS.push({ opts: createOpts.options, roomId });
+                return { room_id: roomId };
+            },
+            getClient: () => ({
+                getStateEvent: async () => { throw { errcode: "M_NOT_FOUND" }; },
+            }),
+            sendStateEvent: async (roomId: string, type: string, key: string, content: any) => {
+                STATE_EVENTS.push({ content, key, roomId, type });
+            },
+            setRoomAvatar: async () => { },
+            setRoomName: async (roomId: string, name: string) => { ROOM_NAMES.push({ name, roomId }); },
+        }),
+    };
+    const discord = {
+        ChannelSyncroniser: {
+            OnUpdate: async () => { },
+        },
+    };
+    const store = {
+        deleteGuildSpace: async (guildId: string, categoryId: string) => {
+            SPACES = SPACES.filter((s) => s.guildId !== guildId || s.categoryId !== categoryId);
+        },
+        getGuildSpaces: async (guildId: string) => SPACES.filter((s) => s.guildId === guildId),
+        roomStore: {
+            getEntriesByRemoteRoomData: async (data: any) => LINKED_ROOMS
+                .filter((link) => link.remote.data.discord_channel === data.discord_channel)
+                .map((link) => ({ matrix: { getId: () => link.matrix.roomId }, remote: link.remote })),
+            linkRooms: async (matrix: any, remote: any) => { LINKED_ROOMS.push({ matrix, remote }); },
+        },
+        upsertGuildSpace: async (space: any) => {
+            SPACES = SPACES.filter((s) => s.guildId !== space.guildId || s.categoryId !== space.categoryId);
+            SPACES.push(space);
+        },
+    };
+    return new SpaceSyncroniser(bridge as any, config, discord as any, store as any);
+}
+
+function childrenOf(spaceId: string): string[] {
+    return STATE_EVENTS
+        .filter((e) => e.roomId === spaceId && e.type === "m.space.child" && e.content.via)
+        .map((e) => e.key);
+}
+
+describe("SpaceSyncroniser", () => {
+    describe("BridgeGuild", () => {
+        it("should create a space with sub-spaces for categories", async () => {
+            const spaceSync = createSpaceSync();
+            const guild = createGuild();
+            createChannel(guild, "1", "category");
+            createChannel(guild, "2", "text", "1");
+            createChannel(guild, "3", "text");
+            createChannel(guild, "4", "voice");
+            const spaceId = await spaceSync.BridgeGuild(guild as any);
+            expect(CREATED_ROOMS[0].roomId).to.equal(spaceId);
+            expect(CREATED_ROOMS[0].opts.creation_content.type).to.equal("m.space");
+            expect(CREATED_ROOMS[0].opts.name).to.equal("My Guild");
+            expect(CREATED_ROOMS[0].opts.room_alias_name).to.equal("_discord_123");
+            const categorySpace = SPACES.find((s) => s.categoryId === "1").spaceId;
+            expect(childrenOf(spaceId)).to.deep.equal([categorySpace, LINKED_ROOMS[1].matrix.roomId]);
+            expect(childrenOf(categorySpace)).to.deep.equal([LINKED_ROOMS[0].matrix.roomId]);
+            expect(LINKED_ROOMS.map((link) => link.remote.data.discord_channel)).to.deep.equal(["2", "3"]);
+            expect(CREATED_ROOMS).to.have.length(BRIDGED_GUILD_ROOMS);
+        });
+        it("should skip channels the bot cannot see", async () => {
+            const spaceSync = createSpaceSync();
+            const guild = createGuild();
+            createChannel(guild, "2", "text", null, false);
+            await spaceSync.BridgeGuild(guild as any);
+            expect(CREATED_ROOMS).to.have.length(1);
+            expect(LINKED_ROOMS).to.be.empty;
+        });
+        it("should reuse existing spaces and rooms", async () => {
+            const spaceSync = createSpaceSync({
+                linkedRooms: [{
+                    matrix: { roomId: "!existing:localhost" },
+                    remote: { data: { discord_channel: "3" } },
+                }],
+                spaces: [{ categoryId: "", guildId: "123", icon: null, name: "My Guild", spaceId: "!space:localhost" }],
+            });
+            const guild = createGuild();
+            createChannel(guild, "3", "text");
+            expect(await spaceSync.BridgeGuild(guild as any)).to.equal("!space:localhost");
+            expect(CREATED_ROOMS).to.be.empty;
+            expect(childrenOf("!space:localhost")).to.deep.equal(["!existing:localhost"]);
+        });
+    });
+    describe("OnChannelCreate", () => {
+        it("should add new channels to the space", async () => {
+            const spaceSync = createSpaceSync({
+                spaces: [{ categoryId: "", guildId: "123", icon: null, name: "My Guild", spaceId: "!space:localhost" }],
+            });
+            const channel = createChannel(createGuild(), "5", "text");
+            await spaceSync.OnChannelCreate(channel as any);
+            expect(CREATED_ROOMS).to.have.length(1);
+            expect(childrenOf("!space:localhost")).to.deep.equal([CREATED_ROOMS[0].roomId]);
+        });
+        it("should ignore guilds that aren't bridged as a space", async () => {
+            const spaceSync = createSpaceSync();
+            const channel = createChannel(createGuild(), "5", "text");
+            await spaceSync.OnChannelCreate(channel as any);
+            expect(CREATED_ROOMS).to.be.empty;
+        });
+    });
+    describe("OnChannelDelete", () => {
+        it("should remove deleted channels from the space", async () => {
+            const spaceSync = createSpaceSync({
+                linkedRooms: [{
+                    matrix: { roomId: "!existing:localhost" },
+                    remote: { data: { discord_channel: "3" } },
+                }],
+                spaces: [{ categoryId: "", guildId: "123", icon: null, name: "My Guild", spaceId: "!space:localhost" }],
+            });
+            const channel = createChannel(createGuild(), "3", "text");
+            await spaceSync.OnChannelDelete(channel as any);
+            expect(STATE_EVENTS[0]).to.deep.equal({
+                content: {},
+                key: "!existing:localhost",
+                roomId: "!space:localhost",
+                type: "m.space.child",
+            });
+        });
+        it("should remove deleted categories", async () => {
+            const spaceSync = createSpaceSync({
+                spaces: [
+                    { categoryId: "", guildId: "123", icon: null, name: "My Guild", spaceId: "!space:localhost" },
+                    { categoryId: "1", guildId: "123", icon: null, name: "Category", spaceId: "!category:localhost" },
+                ],
+            });
+            const channel = createChannel(createGuild(), "1", "category");
+            await spaceSync.OnChannelDelete(channel as any);
+            expect(STATE_EVENTS[0].key).to.equal("!category:localhost");
+            expect(SPACES).to.have.length(1);
+        });
+    });
+    describe("OnGuildUpdate", () => {
+        it("should rename the space", async () => {
+            const spaceSync = createSpaceSync({
+                spaces: [{ categoryId: "", guildId: "123", icon: null, name: "Old name", spaceId: "!space:localhost" }],
+            });
+            await spaceSync.OnGuildUpdate(createGuild() as any);
+            expect(ROOM_NAMES).to.deep.equal([{ name: "My Guild", roomId: "!space:localhost" }]);
+            expect(SPACES[0].name).to.equal("My Guild");
+        });
+        it("should not touch spaces that are up to date", async () => {
+            const spaceSync = createSpaceSync({
+                spaces: [{ categoryId: "", guildId: "123", icon: null, name: "My Guild", spaceId: "!space:localhost" }],
+            });
+            await spaceSync.OnGuildUpdate(createGuild() as any);
+            expect(ROOM_NAMES).to.be.empty;
+        });
+    });
+});
@@ -19,7 +19,10 @@ import * as Chai from "chai";
 import { DiscordStore, CURRENT_SCHEMA } from "../src/store";
 import { DbEmoji } from "../src/db/dbdataemoji";
 import { DbEvent } from "../src/db/dbdataevent";
+import { DbReaction } from "../src/db/dbdatareaction";
 import { Log } from "../src/log";
+import { DiscordBridgeConfigDatabase } from "../src/config";
+import { TokenCipher } from "../src/tokencipher";
 
 // we are a test file and thus need those
 /* tslint:disable:no-unused-expression max-file-line-count no-any */
@@ -27,6 +30,8 @@ import { Log } from "../src/log";
 const expect = Chai.expect;
 
 const TEST_SCHEMA = CURRENT_SCHEMA;
+const TOKEN_KEY_LENGTH = 32;
+const TOKEN_KEY = Buffer.alloc(TOKEN_KEY_LENGTH, "a").toString("base64");
 
 // const assert = Chai.assert;
 
@@ -44,6 +49,179 @@ describe("DiscordStore", () => {
             await store.addUserToken("userid", "token", "discordid");
         });
     });
+    describe("deleteUserToken", () => {
+        it("should delete the token and its user", async () => {
+            const store = new DiscordStore(":memory:");
+            await store.init();
+            await store.addUserToken("userid", "discordid", "token");
+            await store.addUserToken("userid", "otherid", "othertoken");
+            await store.deleteUserToken("discordid");
+            expect(await store.getToken("discordid")).to.equal("");
+            expect(await store.getUserDiscordIds("userid")).to.deep.equal(["otherid"]);
+        });
+    });
+    describe("getToken", () => {
+        it("should store tokens encrypted when a key is set", async () => {
+            const config = new DiscordBridgeConfigDatabase();
+            config.filename = ":memory:";
+            config.tokenKey = TOKEN_KEY;
+            const store = new DiscordStore(config);
+            await store.init();
+            await store.addUserToken("userid", "discordid", "token");
+            const row = await store.db.Get("SELECT token FROM discord_id_token WHERE discord_id = 'discordid'");
+            expect(row!.token).to.not.equal("token");
+            expect(await store.getToken("discordid")).to.equal("token");
+        });
+        it("should encrypt tokens stored in plain text", async () => {
+            const config = new DiscordBridgeConfigDatabase();
+            config.filename = ":memory:";
+            const store = new DiscordStore(config);
+            await store.init();
+            await store.addUserToken("userid", "discordid", "token");
+            config.tokenKey = TOKEN_KEY;
+            (store as any).tokenCipher = new TokenCipher(config);
+            expect(await store.reencryptTokens()).to.equal(1);
+            expect(await store.reencryptTokens()).to.equal(0);
+            expect(await store.getToken("discordid")).to.equal("token");
+        });
+    });
+    describe("markTokenInvalidated", () => {
+        it("should mark a token until it is stored again", async () => {
+            const store = new DiscordStore(":memory:");
+            await store.init();
+            await store.addUserToken("userid", "discordid", "token");
+            expect(await store.isTokenInvalidated("discordid")).to.be.false;
+            await store.markTokenInvalidated("discordid");
+            expect(await store.isTokenInvalidated("discordid")).to.be.true;
+            await store.deleteUserToken("discordid");
+            await store.addUserToken("userid", "discordid", "token");
+            expect(await store.isTokenInvalidated("discordid")).to.be.false;
+        });
+    });
+    describe("get|setPreferredDiscordId", () => {
+        it("should store default and guild preferences", async () => {
+            const store = new DiscordStore(":memory:");
+            await store.init();
+            await store.setPreferredDiscordId("userid", "123");
+            await store.setPreferredDiscordId("userid", "456", "guildid");
+            expect(await store.getPreferredDiscordId("userid")).to.equal("123");
+            expect(await store.getPreferredDiscordId("userid", "guildid")).to.equal("456");
+            expect(await store.getPreferredDiscordId("userid", "otherguild")).to.be.null;
+            const preferences = await store.getDiscordIdPreferences("userid");
+            expect(preferences.get("")).to.equal("123");
+            expect(preferences.get("guildid")).to.equal("456");
+        });
+        it("should replace a preference", async () => {
+            const store = new DiscordStore(":memory:");
+            await store.init();
+            await store.setPreferredDiscordId("userid", "123");
+            await store.setPreferredDiscordId("userid", "456");
+            expect(await store.getPreferredDiscordId("userid")).to.equal("456");
+        });
+        it("should delete preferences of an account", async () => {
+            const store = new DiscordStore(":memory:");
+            await store.init();
+            await store.setPreferredDiscordId("userid", "123");
+            await store.setPreferredDiscordId("userid", "123", "guildid");
+            await store.deletePreferredDiscordId("userid", "123");
+            expect((await store.getDiscordIdPreferences("userid")).size).to.equal(0);
+        });
+    });
+    describe("add|get|deleteBridgeRequest", () => {
+        const request = {
+            channelId: "channelid",
+            expiresAt: 1000,
+            guildId: "guildid",
+            messageId: "messageid",
+            requestor: "@user:localhost",
+            roomId: "!room:localhost",
+        };
+        it("should store a bridge request", async () => {
+            const store = new DiscordStore(":memory:");
+            await store.init();
+            await store.addBridgeRequest(request);
+            expect(await store.getBridgeRequests()).to.deep.equal([request]);
+        });
+        it("should replace the request of a channel", async () => {
+            const store = new DiscordStore(":memory:");
+            await store.init();
+            await store.addBridgeRequest(request);
+            await store.addBridgeRequest(Object.assign({}, request, {roomId: "!other:localhost"}));
+            const requests = await store.getBridgeRequests();
+            expect(requests).to.have.length(1);
+            expect(requests[0].roomId).to.equal("!other:localhost");
+        });
+        it("should delete a bridge request", async () => {
+            const store = new DiscordStore(":memory:");
+            await store.init();
+            await store.addBridgeRequest(request);
+            await store.deleteBridgeRequest("guildid", "channelid");
+            expect(await store.getBridgeRequests()).to.be.empty;
+        });
+    });
+    describe("add|getBridgeApprovals|getBridgeApprovalsOfRoom", () => {
+        it("should store audit records", async () => {
+            const store = new DiscordStore(":memory:");
+            await store.init();
+            const approval = {
+                approverId: "discordid",
+                approverName: "Mark#1234",
+                channelId: "channelid",
+                decidedAt: 1000,
+                decision: "approved" as "approved",
+                guildId: "guildid",
+                requestor: "@user:localhost",
+                roomId: "!room:localhost",
+            };
+            await store.addBridgeApproval(approval);
+            expect(await store.getBridgeApprovals("guildid", "channelid")).to.deep.equal([approval]);
+            expect(await store.getBridgeApprovals("guildid", "otherchannel")).to.be.empty;
+        });
+        it("should get the audit records of a room", async () => {
+            const store = new DiscordStore(":memory:");
+            await store.init();
+            const approval = {
+                approverId: "discordid",
+                approverName: "Mark#1234",
+                channelId: "channelid",
+                decidedAt: 1000,
+                decision: "declined" as "declined",
+                guildId: "guildid",
+                requestor: "@user:localhost",
+                roomId: "!room:localhost",
+            };
+            await store.addBridgeApproval(approval);
+            await store.addBridgeApproval(Object.assign({}, approval, {roomId: "!other:localhost"}));
+            expect(await store.getBridgeApprovalsOfRoom("!room:localhost")).to.deep.equal([approval]);
+        });
+    });
+    describe("get|upsert|deleteGuildSpace", () => {
+        const space = {
+            categoryId: "",
+            guildId: "guildid",
+            icon: "iconhash",
+            name: "My Guild",
+            spaceId: "!space:localhost",
+        };
+        it("should store and update a space", async () => {
+            const store = new DiscordStore(":memory:");
+            await store.init();
+            await store.upsertGuildSpace(space);
+            await store.upsertGuildSpace(Object.assign({}, space, {name: "New name"}));
+            const spaces = await store.getGuildSpaces("guildid");
+            expect(spaces).to.have.length(1);
+            expect(spaces[0].name).to.equal("New name");
+            expect(await store.getGuildSpaces("otherguild")).to.be.empty;
+        });
+        it("should delete the space of a category", async () => {
+            const store = new DiscordStore(":memory:");
+            await store.init();
+            await store.upsertGuildSpace(space);
+            await store.upsertGuildSpace(Object.assign({}, space, {categoryId: "categoryid", icon: null}));
+            await store.deleteGuildSpace("guildid", "categoryid");
+            expect(await store.getGuildSpaces("guildid")).to.deep.equal([space]);
+        });
+    });
     describe("Get|Insert|Update<DbEmoji>", () => {
         it("should insert successfully", async () => {
             const store = new DiscordStore(":memory:");
@@ -177,4 +355,55 @@ describe("DiscordStore", () => {
             Chai.assert.isFalse(getEvent!.Result);
         });
     });
+    describe("getLastBridgedMessageId", () => {
+        it("should get the newest message of a channel", async () => {
+            const store = new DiscordStore(":memory:");
+            await store.init();
+            for (const [discordId, channelId] of [["999", "123"], ["1000", "123"], ["2000", "456"]]) {
+                const event = new DbEvent();
+                event.MatrixId = "$" + discordId;
+                event.DiscordId = discordId;
+                event.GuildId = "123";
+                event.ChannelId = channelId;
+                await store.Insert(event);
+            }
+            expect(await store.getLastBridgedMessageId("123")).to.equal("1000");
+            expect(await store.getLastBridgedMessageId("789")).to.be.null;
+        });
+    });
+    describe("Get|Insert|Delete<DbReaction>", () => {
+        it("should get by matrix and discord ids", async () => {
+            const store = new DiscordStore(":memory:");
+            await store.init();
+            const reaction = new DbReaction();
+            reaction.MatrixId = "$reaction;!room";
+            reaction.DiscordMsgId = "456";
+            reaction.DiscordUserId = "789";
+            reaction.Emoji = "🦊";
+            await store.Insert(reaction);
+            const getMatrix = await store.Get(DbReaction, {matrix_id: "$reaction;!room"});
+            Chai.assert.isTrue(getMatrix!.Next());
+            Chai.assert.equal(getMatrix!.Emoji, "🦊");
+            const getDiscord = await store.Get(DbReaction, {
+                discord_msg_id: "456",
+                discord_user_id: "789",
+                emoji: "🦊",
+            });
+            Chai.assert.isTrue(getDiscord!.Next());
+            Chai.assert.equal(getDiscord!.MatrixId, "$reaction;!room");
+        });
+        it("should delete successfully", async () => {
+            const store = new DiscordStore(":memory:");
+            await store.init();
+            const reaction = new DbReaction();
+            reaction.MatrixId = "$reaction;!room";
+            reaction.DiscordMsgId = "456";
+            reaction.DiscordUserId = "789";
+            reaction.Emoji = "123";
+            await store.Insert(reaction);
+            await store.Delete(reaction);
+            const getReaction = await store.Get(DbReaction, {matrix_id: "$reaction;!room"});
+            Chai.assert.isFalse(getReaction!.Result);
+        });
+    });
 });
@@ -0,0 +1,99 @@
+/*
+Copyright 2019 matrix-appservice-discord
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import * as Chai from "chai";
+import { DiscordBridgeConfigDatabase } from "../src/config";
+import { TokenCipher } from "../src/tokencipher";
+
+// we are a test file and thus need those
+/* tslint:disable:no-unused-expression max-file-line-count no-any */
+
+const expect = Chai.expect;
+
+const KEY_LENGTH = 32;
+const KEY_A = Buffer.alloc(KEY_LENGTH, "a").toString("base64");
+const KEY_B = Buffer.alloc(KEY_LENGTH, "b").toString("base64");
+const TOKEN = "MTIzNDU2Nzg5MDEyMzQ1Njc4.XbCdEf.abcdefghijklmnopqrstuvwxyz0";
+// Encrypted tokens look like enc:<keyId>:<iv>:<authTag>:<ciphertext>.
+const CIPHERTEXT_PART = 4;
+
+function createCipher(opts: any = {}) {
+    const config = new DiscordBridgeConfigDatabase();
+    config.tokenKey = opts.tokenKey !== undefined ? opts.tokenKey : KEY_A;
+    config.tokenKeyId = opts.tokenKeyId || "a";
+    config.previousTokenKeys = opts.previousTokenKeys || [];
+    return new TokenCipher(config);
+}
+
+describe("TokenCipher", () => {
+    describe("encrypt", () => {
+        it("should encrypt and decrypt a token", () => {
+            const cipher = createCipher();
+            const stored = cipher.encrypt(TOKEN);
+            expect(stored).to.not.contain(TOKEN);
+            expect(stored.startsWith("enc:a:")).to.be.true;
+            expect(cipher.decrypt(stored)).to.equal(TOKEN);
+        });
+        it("should use a new IV every time", () => {
+            const cipher = createCipher();
+            expect(cipher.encrypt(TOKEN)).to.not.equal(cipher.encrypt(TOKEN));
+        });
+        it("should store tokens as is without a key", () => {
+            const cipher = createCipher({tokenKey: ""});
+            expect(cipher.isEnabled).to.be.false;
+            expect(cipher.encrypt(TOKEN)).to.equal(TOKEN);
+        });
+    });
+    describe("decrypt", () => {
+        it("should return plain text tokens as is", () => {
+            const cipher = createCipher();
+            expect(cipher.decrypt(TOKEN)).to.equal(TOKEN);
+        });
+        it("should decrypt tokens encrypted with a previous key", () => {
+            const stored = createCipher().encrypt(TOKEN);
+            const cipher = createCipher({previousTokenKeys: [`a:${KEY_A}`], tokenKey: KEY_B, tokenKeyId: "b"});
+            expect(cipher.decrypt(stored)).to.equal(TOKEN);
+        });
+        it("should fail on tokens encrypted with an unknown key", () => {
+            const stored = createCipher().encrypt(TOKEN);
+            const cipher = createCipher({tokenKey: KEY_B, tokenKeyId: "b"});
+            expect(() => cipher.decrypt(stored)).to.throw("unknown key");
+        });
+        it("should fail on tokens that have been tampered with", () => {
+            const cipher = createCipher();
+            const parts = cipher.encrypt(TOKEN).split(":");
+            parts[CIPHERTEXT_PART] = Buffer.from("tampered").toString("base64");
+            expect(() => cipher.decrypt(parts.join(":"))).to.throw();
+        });
+    });
+    describe("isCurrent", () => {
+        it("should only accept tokens encrypted with the current key", () => {
+            const stored = createCipher().encrypt(TOKEN);
+            const cipher = createCipher({previousTokenKeys: [`a:${KEY_A}`], tokenKey: KEY_B, tokenKeyId: "b"});
+            expect(cipher.isCurrent(stored)).to.be.false;
+            expect(cipher.isCurrent(cipher.encrypt(TOKEN))).to.be.true;
+            expect(cipher.isCurrent(TOKEN)).to.be.false;
+        });
+    });
+    describe("constructor", () => {
+        it("should reject keys of the wrong length", () => {
+            expect(() => createCipher({tokenKey: "c2hvcnQ="})).to.throw("must be 32 bytes");
+        });
+        it("should reject malformed previous keys", () => {
+            expect(() => createCipher({previousTokenKeys: [KEY_B]})).to.throw("keyId:key");
+        });
+    });
+});
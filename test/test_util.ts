@@ -311,4 +311,39 @@ Fox goes floof!`);
             expect(ret).to.be.true;
         });
     });
+    describe("SplitMessage", () => {
+        /* tslint:disable:no-magic-numbers */
+        const MAX_LENGTH = 100;
+        it("should not split short messages", () => {
+            expect(Util.SplitMessage("Hello world", MAX_LENGTH)).to.deep.equal(["Hello world"]);
+        });
+        it("should keep an empty message as one part", () => {
+            expect(Util.SplitMessage("", MAX_LENGTH)).to.deep.equal([""]);
+        });
+        it("should split on paragraphs", () => {
+            const para = "a".repeat(60);
+            expect(Util.SplitMessage(`${para}\n\n${para}`, MAX_LENGTH)).to.deep.equal([para, para]);
+        });
+        it("should split on words without breaking markdown spans", () => {
+            const parts = Util.SplitMessage(`${"word ".repeat(17)}**bold words here** end`, MAX_LENGTH);
+            expect(parts.length).to.equal(2);
+            expect(parts[1]).to.equal("**bold words here** end");
+        });
+        it("should close and reopen split code blocks", () => {
+            const code = `\`\`\`js\n${"let a = 1;\n".repeat(15)}\`\`\``;
+            const parts = Util.SplitMessage(code, MAX_LENGTH);
+            expect(parts.length).to.be.greaterThan(1);
+            parts.forEach((part) => {
+                expect(part.length).to.be.at.most(MAX_LENGTH);
+                expect(part.startsWith("```js\n")).to.be.true;
+                expect(part.endsWith("```")).to.be.true;
+            });
+        });
+        it("should cut text without whitespace", () => {
+            const parts = Util.SplitMessage("a".repeat(250), MAX_LENGTH);
+            expect(parts.join("")).to.equal("a".repeat(250));
+            parts.forEach((part) => expect(part.length).to.be.at.most(MAX_LENGTH));
+        });
+        /* tslint:enable:no-magic-numbers */
+    });
 });
@@ -0,0 +1,80 @@
+/*
+Copyright 2019 matrix-appservice-discord
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import * as yaml from "js-yaml";
+import * as fs from "fs";
+import * as args from "command-line-args";
+import * as usage from "command-line-usage";
+import { DiscordBridgeConfig } from "../src/config";
+import { DiscordStore } from "../src/store";
+import { Log } from "../src/log";
+
+const log = new Log("RotateTokenKey");
+
+const optionDefinitions = [
+    {
+        alias: "h",
+        description: "Display this usage guide.",
+        name: "help",
+        type: Boolean,
+    },
+    {
+        alias: "c",
+        defaultValue: "config.yaml",
+        description: "The AS config file.",
+        name: "config",
+        type: String,
+        typeLabel: "<config.yaml>",
+    },
+];
+
+const options = args(optionDefinitions);
+
+if (options.help) {
+    /* tslint:disable:no-console */
+    console.log(usage([
+    {
+        content: "A tool to re-encrypt the stored tokens of puppeted users with the current key. " +
+        "Set the new key as database.tokenKey with a new database.tokenKeyId, add the old key to " +
+        "database.previousTokenKeys as \"keyId:key\" and run this tool. The old key can be removed afterwards.",
+        header: "Rotate token key",
+    },
+    {
+        header: "Options",
+        optionList: optionDefinitions,
+    },
+    ]));
+    process.exit(0);
+}
+
+const config = new DiscordBridgeConfig();
+config.applyConfig(yaml.safeLoad(fs.readFileSync(options.config, "utf8")) as DiscordBridgeConfig);
+config.applyEnvironmentOverrides(process.env);
+
+async function run() {
+    const store = new DiscordStore(config.database);
+    await store.init();
+    const count = await store.reencryptTokens();
+    log.info(`Re-encrypted ${count} token(s).`);
+    await store.close();
+}
+
+run().then(() => {
+    process.exit(0);
+}).catch((err) => {
+    log.error("Failed to rotate the token key. Ensure the bridge is not running while using this command.", err);
+    process.exit(1);
+});